@@ -1,17 +1,17 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { pathToFileURL } from 'node:url'
 import { version } from '../package.json'
-import { CLI } from '../src'
+import { ClappError, CLI, generateManPage, generateMarkdownReference } from '../src'
 
 const cli = new CLI('clapp')
 
-interface CliOption {
-  verbose: boolean
-}
-
 cli
   .command('start', 'Start the Reverse Proxy Server')
   .option('--verbose', 'Enable verbose logging')
   .example('reverse-proxy start --from localhost:5173 --to my-project.localhost')
-  .action(async (options?: CliOption) => {
+  .action(async (options) => {
     console.log('Options:', options)
   })
 
@@ -19,6 +19,34 @@ cli.command('version', 'Show the version of the CLI').action(() => {
   console.log(version)
 })
 
+cli
+  .command('docs [entry]', 'Generate a man page or Markdown reference for a CLI')
+  .argument('entry', 'Module exporting the CLI instance as `default` or `cli`, defaults to clapp itself')
+  .option('--format <format>', 'Output format', { choices: ['man', 'markdown'], default: 'markdown' })
+  .option('-o, --out <file>', 'Write to a file instead of stdout')
+  .example('clapp docs ./src/cli.ts --format man --out mycli.1')
+  .action(async (entry, options) => {
+    let target = cli
+    if (entry) {
+      const mod = await import(pathToFileURL(path.resolve(entry)).href)
+      target = mod.default ?? mod.cli
+      if (!(target instanceof CLI)) {
+        throw new ClappError(`\`${entry}\` does not export a CLI instance`)
+      }
+    }
+
+    const output = options.format === 'man'
+      ? generateManPage(target)
+      : generateMarkdownReference(target)
+
+    if (options.out) {
+      await fs.writeFile(options.out, output)
+    }
+    else {
+      process.stdout.write(output)
+    }
+  })
+
 cli.version(version)
 cli.help()
-cli.parse()
+await cli.run()
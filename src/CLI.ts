@@ -1,10 +1,56 @@
+import type { Readable, Writable } from 'node:stream'
 import type { CommandConfig, CommandExample, HelpCallback } from './Command'
+import type { Shell } from './completion'
+import type { OptionSource } from './config'
+import type { ParseDiagnostic } from './diagnostics'
+import type { HelpFormat, HelpModelOptions, HelpSection } from './help'
+import type { InferArgs, ParsedOptions } from './infer'
+import type { CommandContext, Hook, Middleware } from './middleware'
+import type Option from './Option'
 import type { OptionConfig } from './Option'
+import type { OutputFormat } from './output'
+import type { Plugin } from './plugin'
+import type { ExpandedArgv, ResponseFileOptions } from './response-files'
+import type { CommandRoute } from './router'
+import type { ShellOptions } from './shell'
+import type { DeprecatedUsage } from './utils'
 import { EventEmitter } from 'node:events'
+import process from 'node:process'
 import mri from 'mri'
 import Command, { GlobalCommand } from './Command'
+import { detectShell, generateCompletion, getCompletions, shells } from './completion'
+import { loadConfig } from './config'
+import { findOptionValueToken, formatDiagnostic } from './diagnostics'
+import { setLocale, t } from './i18n'
+import { canPrompt, promptMissingValues } from './interactive'
+import { composeMiddleware } from './middleware'
+import { isMachineFormat, outputFormats, renderOutput } from './output'
+import { discoverPlugins, installPlugin } from './plugin'
+import { expandResponseFiles } from './response-files'
+import { registerCommandRoutes, scanCommands } from './router'
 import { processArgs } from './runtimes/node'
-import { camelcaseOptionName, getFileName, getMriOptions, setByType, setDotProp } from './utils'
+import { startShell } from './shell'
+import { shutdown } from './shutdown'
+import { style } from './style'
+import {
+  camelcaseOptionName,
+  ClappError,
+  coerceValue,
+  findSuggestions,
+  formatDeprecation,
+  formatSuggestions,
+  getExitCode,
+  getFileName,
+  getMriOptions,
+  hasValueSchema,
+  isMissingValue,
+  mergeOptionValues,
+  setByType,
+  setDotProp,
+  shapeOptionValue,
+  toArray,
+} from './utils'
+import { settings } from './utils/index'
 
 interface ParsedArgv {
   args: ReadonlyArray<string>
@@ -13,9 +59,80 @@ interface ParsedArgv {
   }
 }
 
+interface ParsedInfo extends ParsedArgv {
+  sources: { [k: string]: OptionSource }
+}
+
+interface CLIConfig {
+  /**
+   * Exit the process when `run()` fails, otherwise the returned promise rejects
+   * @default true
+   */
+  exitProcess?: boolean
+  /**
+   * Throw an error for unknown commands instead of emitting `command:*`
+   * @default false
+   */
+  strictCommands?: boolean
+  /**
+   * Read every option from `${envPrefix}_${OPTION_NAME}` when it's not passed in argv,
+   * e.g. `MYAPP_DRY_RUN` for `--dry-run`
+   */
+  envPrefix?: string
+  /**
+   * Load option values from `.${configName}rc`, `${configName}.config.ts` or
+   * `package.json#${configName}` when running with `run()`
+   */
+  configName?: string
+  /**
+   * Stream to print help to, wrapping and colors follow its width and TTY state
+   * @default process.stdout
+   */
+  helpOutput?: Writable
+  /**
+   * Prompt for missing required args and option values in `run()` instead of failing,
+   * when the prompt input is a TTY
+   * @default false
+   */
+  interactive?: boolean
+  /**
+   * Replace `@file` args with the args in those files before parsing,
+   * unless the matched command sets `responseFiles: false`
+   * @default false
+   */
+  responseFiles?: boolean | ResponseFileOptions
+  /**
+   * Print a warning the first time a deprecated command or option is used
+   * @default true
+   */
+  deprecationWarnings?: boolean
+  /**
+   * Shut down gracefully on SIGINT and SIGTERM while `run()` runs: abort `cli.signal`,
+   * wait for the action and run the cleanups registered with `shutdown.onCleanup()`
+   * @default true
+   */
+  handleSignals?: boolean
+  /**
+   * Locale of help output, errors and prompts, e.g. `de` or `ja`, see `setLocale()`
+   * @default `LC_ALL`, `LC_MESSAGES` or `LANG`, falling back to `en`
+   */
+  locale?: string
+  /**
+   * Stream to read prompt answers from
+   * @default process.stdin
+   */
+  promptInput?: Readable
+  /**
+   * Stream to render prompts to
+   * @default process.stdout
+   */
+  promptOutput?: Writable
+}
+
 export class CLI extends EventEmitter {
   /** The program name to display in help and version message */
   name: string
+  config: CLIConfig
   commands: Command[]
   globalCommand: GlobalCommand
   matchedCommand?: Command
@@ -24,6 +141,16 @@ export class CLI extends EventEmitter {
    * Raw CLI arguments
    */
   rawArgs: string[]
+  /**
+   * Args of the last `parse()` without the program and script paths, after expanding
+   * response files, the `location` of parse errors points into them
+   */
+  argv: string[]
+  /**
+   * Response file and line each arg in `argv` was read from, e.g. `build.args:3`,
+   * `undefined` for args passed on the command line
+   */
+  argvOrigins: Array<string | undefined>
   /**
    * Parsed CLI arguments
    */
@@ -33,21 +160,72 @@ export class CLI extends EventEmitter {
    */
   options: ParsedArgv['options']
 
+  /**
+   * Where each parsed option value came from, keyed by option name
+   */
+  optionSources: { [k: string]: OptionSource }
+  /**
+   * Values loaded from config files by `loadConfig()`
+   */
+  configValues: { [k: string]: any }
+  /**
+   * Installed plugins, in the order they were added
+   */
+  plugins: Plugin[]
+  /**
+   * Middleware of plugins with `enforce: 'pre'` or `'post'`
+   */
+  pluginMiddleware: { pre: Middleware[], post: Middleware[] }
+  /**
+   * Extra sections shown at the end of help output
+   */
+  helpSections: HelpSection[]
+
+  /**
+   * State shared by commands and middleware, kept across the commands run by `shell()`,
+   * e.g. an authenticated session
+   */
+  state: { [k: string]: any }
+
+  /**
+   * Deprecation warnings already printed, each is shown once
+   */
+  private printedDeprecations: Set<string>
+
   showHelpOnExit?: boolean
   showVersionOnExit?: boolean
+  /**
+   * Name of the option added by `outputFormat()`
+   */
+  outputOptionName?: string
 
   /**
    * @param name The program name to display in help and version message
+   * @param config CLI config
    */
-  constructor(name = '') {
+  constructor(name = '', config: CLIConfig = {}) {
     super()
     this.name = name
+    this.config = Object.assign({ exitProcess: true, strictCommands: false }, config)
     this.commands = []
     this.rawArgs = []
+    this.argv = []
+    this.argvOrigins = []
     this.args = []
     this.options = {}
+    this.optionSources = {}
+    this.printedDeprecations = new Set()
+    this.configValues = {}
+    this.plugins = []
+    this.pluginMiddleware = { pre: [], post: [] }
+    this.helpSections = []
+    this.state = {}
     this.globalCommand = new GlobalCommand(this)
     this.globalCommand.usage('<command> [options]')
+
+    if (this.config.locale) {
+      setLocale(this.config.locale)
+    }
   }
 
   /**
@@ -62,19 +240,36 @@ export class CLI extends EventEmitter {
 
   /**
    * Add a sub-command
+   *
+   * Use a multi-word name like `db migrate` to nest it under the `db` command.
    */
-  command(rawName: string, description?: string, config?: CommandConfig): Command {
+  command<RawName extends string>(
+    rawName: RawName,
+    description?: string,
+    config?: CommandConfig,
+  ): Command<InferArgs<RawName>, ParsedOptions, RawName> {
     if (!config) {
       config = {}
     }
 
-    const command = new Command(rawName, description || '', config, this)
+    const command = new Command<InferArgs<RawName>, ParsedOptions, RawName>(rawName, description || '', config, this)
     command.globalCommand = this.globalCommand
     this.commands.push(command)
 
     return command
   }
 
+  /**
+   * Add the commands of a directory, e.g. `commands/db/migrate.ts` as `db migrate`
+   *
+   * Pass the routes exported by a manifest from `writeCommandManifest()`
+   * to skip scanning the file system.
+   */
+  async loadCommands(source: string | CommandRoute[]): Promise<Command[]> {
+    const routes = typeof source === 'string' ? await scanCommands(source) : source
+    return registerCommandRoutes(this, routes)
+  }
+
   /**
    * Add a global CLI option.
    *
@@ -85,6 +280,71 @@ export class CLI extends EventEmitter {
     return this
   }
 
+  /**
+   * Add a global middleware, or install a plugin.
+   *
+   * Middleware wraps the action of every sub-command, before their own middleware.
+   */
+  use(middleware: Middleware | Plugin): this {
+    if (typeof middleware === 'function') {
+      this.globalCommand.use(middleware)
+      return this
+    }
+
+    const plugin = middleware
+    if (this.plugins.some(installed => installed.name === plugin.name)) {
+      throw new ClappError(t('errors.pluginInstalled', { name: plugin.name }))
+    }
+    installPlugin(this, plugin)
+    this.plugins.push(plugin)
+    return this
+  }
+
+  /**
+   * Install the `<name>-plugin-*` packages found in `node_modules`
+   * @param cwd Directory containing `node_modules`
+   */
+  async discoverPlugins(cwd?: string): Promise<Plugin[]> {
+    const plugins = (await discoverPlugins(this.name, cwd))
+      .filter(plugin => !this.plugins.some(installed => installed.name === plugin.name))
+    for (const plugin of plugins) {
+      this.use(plugin)
+    }
+    return plugins
+  }
+
+  /**
+   * Run a hook before any command action.
+   */
+  beforeRun(hook: Hook): this {
+    this.globalCommand.beforeRun(hook)
+    return this
+  }
+
+  /**
+   * Run a hook after any command action, also when it throws.
+   */
+  afterRun(hook: Hook): this {
+    this.globalCommand.afterRun(hook)
+    return this
+  }
+
+  /**
+   * Require at least one of the global options to be passed.
+   */
+  atLeastOneOf(names: string[]): this {
+    this.globalCommand.atLeastOneOf(names)
+    return this
+  }
+
+  /**
+   * Require exactly one of the global options to be passed.
+   */
+  exactlyOneOf(names: string[]): this {
+    this.globalCommand.exactlyOneOf(names)
+    return this
+  }
+
   /**
    * Show help message when `-h, --help` flags appear.
    *
@@ -106,6 +366,49 @@ export class CLI extends EventEmitter {
     return this
   }
 
+  /**
+   * Render the data returned by actions in the format picked with `--output`
+   *
+   * `run()` prints the rendered result. In machine-readable formats (`json`, `yaml` and `csv`)
+   * prompts, spinners and log messages are written to stderr, so stdout only holds the data.
+   * @param defaultFormat Format used when `--output` isn't passed
+   * @param customFlags Flags of the option
+   */
+  outputFormat(defaultFormat: OutputFormat = 'text', customFlags = '--output <format>'): this {
+    this.globalCommand.option(customFlags, 'Output format', { choices: outputFormats, default: defaultFormat })
+    this.outputOptionName = this.globalCommand.options[this.globalCommand.options.length - 1].name
+    return this
+  }
+
+  /**
+   * Add a `completion [shell]` command which prints a bash, zsh or fish completion script.
+   *
+   */
+  completion(commandName = 'completion'): this {
+    const command = this.command(`${commandName} [shell]`, 'Output a shell completion script')
+      .argument('shell', `Shell to complete in (${shells.join(', ')})`, { choices: shells })
+      .example(bin => `${bin} ${commandName} zsh > ~/.zfunc/_${bin}`)
+      .action((shell?: Shell) => {
+        // eslint-disable-next-line no-console
+        console.log(generateCompletion(this, shell || detectShell()))
+      })
+
+    const complete = this.command('__complete', '', { hidden: true, allowUnknownOptions: true })
+      .action(async (options: ParsedArgv['options']) => {
+        const items = await getCompletions(this, options['--'])
+        // eslint-disable-next-line no-console
+        console.log(
+          items
+            .map(item => item.description ? `${item.value}\t${item.description}` : item.value)
+            .join('\n'),
+        )
+      })
+
+    command.builtIn = true
+    complete.builtIn = true
+    return this
+  }
+
   /**
    * Add a global example.
    *
@@ -121,16 +424,27 @@ export class CLI extends EventEmitter {
    * When a sub-command is matched, output the help message for the command
    * Otherwise output the global one.
    *
+   * Deprecated commands and options are listed when `--all` is passed.
    */
   outputHelp(): void {
+    const options = { all: this.options.all === true }
     if (this.matchedCommand) {
-      this.matchedCommand.outputHelp()
+      this.matchedCommand.outputHelp(options)
     }
     else {
-      this.globalCommand.outputHelp()
+      this.globalCommand.outputHelp(options)
     }
   }
 
+  /**
+   * Render help for the matched command, or the CLI when none matched
+   * @param format `text`, `markdown` or `json`
+   * @param options Help model options
+   */
+  formatHelp(format?: HelpFormat, options?: HelpModelOptions): string {
+    return (this.matchedCommand || this.globalCommand).formatHelp(format, options)
+  }
+
   /**
    * Output the version number.
    *
@@ -140,12 +454,13 @@ export class CLI extends EventEmitter {
   }
 
   private setParsedInfo(
-    { args, options }: ParsedArgv,
+    { args, options, sources }: ParsedInfo,
     matchedCommand?: Command,
     matchedCommandName?: string,
   ) {
     this.args = args
     this.options = options
+    this.optionSources = sources
     if (matchedCommand) {
       this.matchedCommand = matchedCommand
     }
@@ -161,7 +476,10 @@ export class CLI extends EventEmitter {
   }
 
   /**
-   * Parse argv
+   * Parse argv, and run the action of the matched command unless `run` is `false`
+   *
+   * An action run through middleware or a lazy loader is not awaited, errors it throws
+   * are printed like in `run()`. Use `run()` to await the action.
    */
   parse(
     argv: string[] = processArgs,
@@ -171,26 +489,30 @@ export class CLI extends EventEmitter {
     }: { run?: boolean } = {},
   ): ParsedArgv {
     this.rawArgs = argv
+    // Forget the previous match, a CLI parses every line in `shell()`
+    this.unsetMatchedCommand()
     if (!this.name) {
       this.name = argv[1] ? getFileName(argv[1]) : 'cli'
     }
 
     let shouldParse = true
+    const { args, origins } = this.expandResponseFiles(argv.slice(2))
+    this.argv = args
+    this.argvOrigins = origins
 
-    // Search sub-commands
-    for (const command of this.commands) {
-      const parsed = this.mri(argv.slice(2), command)
-
-      const commandName = parsed.args[0]
-      if (command.isMatched(commandName)) {
-        shouldParse = false
-        const parsedInfo = {
-          ...parsed,
-          args: parsed.args.slice(1),
-        }
-        this.setParsedInfo(parsedInfo, command, commandName)
-        this.emit(`command:${commandName}`, command)
+    // Search sub-commands, the longest (most nested) match wins
+    const matched = this.matchCommand(args)
+
+    if (matched) {
+      shouldParse = false
+      const { command, parsed, length } = matched
+      const commandName = parsed.args.slice(0, length).join(' ')
+      const parsedInfo = {
+        ...parsed,
+        args: parsed.args.slice(length),
       }
+      this.setParsedInfo(parsedInfo, command, commandName)
+      this.emit(`command:${commandName}`, command)
     }
 
     if (shouldParse) {
@@ -198,7 +520,7 @@ export class CLI extends EventEmitter {
       for (const command of this.commands) {
         if (command.name === '') {
           shouldParse = false
-          const parsed = this.mri(argv.slice(2), command)
+          const parsed = this.mri(args, command)
           this.setParsedInfo(parsed, command)
           this.emit(`command:!`, command)
         }
@@ -206,46 +528,318 @@ export class CLI extends EventEmitter {
     }
 
     if (shouldParse) {
-      const parsed = this.mri(argv.slice(2))
+      const parsed = this.mri(args)
       this.setParsedInfo(parsed)
     }
 
+    let shouldValidate = true
+
     if (this.options.help && this.showHelpOnExit) {
       this.outputHelp()
       run = false
+      shouldValidate = false
       this.unsetMatchedCommand()
     }
 
     if (this.options.version && this.showVersionOnExit && this.matchedCommandName == null) {
       this.outputVersion()
       run = false
+      shouldValidate = false
       this.unsetMatchedCommand()
     }
 
+    if (shouldValidate) {
+      this.applyDeprecations()
+      this.coerceOptions()
+      this.applyImpliedOptions()
+    }
+
     const parsedArgv = { args: this.args, options: this.options }
 
     if (run) {
-      this.runMatchedCommand()
+      const result = this.runMatchedCommand()
+      // Middleware and lazy actions run asynchronously, nothing awaits them here
+      if (result instanceof Promise) {
+        result.catch((error) => {
+          this.handleRunError(error)
+        })
+      }
     }
 
     if (!this.matchedCommand && this.args[0]) {
+      if (shouldValidate && this.config.strictCommands) {
+        throw new ClappError(
+          `${t('errors.unknownCommand', { name: this.args[0] })}${
+            formatSuggestions(this.getCommandSuggestions(this.args))
+          }`,
+          { location: this.globalCommand.locateArg(0) },
+        )
+      }
       this.emit('command:*')
     }
 
     return parsedArgv
   }
 
+  /**
+   * Parse argv and run the matched command, awaiting its action
+   *
+   * Resolves with the result of the action. Errors are printed to stderr
+   * and set `process.exitCode`, see `config.exitProcess`.
+   */
+  async run(argv: string[] = processArgs): Promise<any> {
+    const uninstallShutdown = this.config.handleSignals === false ? undefined : shutdown.install()
+    try {
+      if (this.config.configName) {
+        await this.loadConfig()
+      }
+      this.parse(argv, { run: false })
+      if (canPrompt(this)) {
+        this.matchedCommand?.checkUnknownOptions()
+        await promptMissingValues(this)
+      }
+      return await shutdown.track(this.runWithOutputFormat())
+    }
+    catch (error) {
+      // The shutdown exits once the interrupted action settles
+      if (shutdown.isShuttingDown) {
+        return undefined
+      }
+      this.handleRunError(error)
+      throw error
+    }
+    finally {
+      // Keep listening for a second signal while shutting down
+      if (!shutdown.isShuttingDown) {
+        uninstallShutdown?.()
+      }
+    }
+  }
+
+  /**
+   * Print an error of a command run, set `process.exitCode` and exit unless `config.exitProcess` is off
+   */
+  private handleRunError(error: unknown): void {
+    const exitCode = getExitCode(error)
+    this.outputError(error)
+    process.exitCode = exitCode
+
+    if (this.config.exitProcess) {
+      process.exit(exitCode)
+    }
+  }
+
+  /**
+   * Aborted when the process is shutting down, e.g. on Ctrl+C, see `config.handleSignals`
+   */
+  get signal(): AbortSignal {
+    return shutdown.signal
+  }
+
+  /**
+   * Run the matched command and print its result in the `--output` format, see `outputFormat()`
+   */
+  private async runWithOutputFormat(): Promise<any> {
+    const format: OutputFormat | undefined = this.outputOptionName ? this.options[this.outputOptionName] : undefined
+    if (!format) {
+      return this.runMatchedCommand()
+    }
+
+    const { output } = settings
+    if (isMachineFormat(format)) {
+      settings.output = process.stderr
+    }
+    let result: any
+    try {
+      result = await this.runMatchedCommand()
+    }
+    finally {
+      settings.output = output
+    }
+
+    if (result !== undefined && this.matchedCommand) {
+      process.stdout.write(`${renderOutput(result, format, { color: style.supportsColor && !!process.stdout.isTTY })}\n`)
+    }
+    return result
+  }
+
+  /**
+   * Start an interactive shell which runs each entered line as a command,
+   * with history, tab completion and `help` and `exit` builtins
+   *
+   * Resolves when the shell is left with `exit`, Ctrl+C or Ctrl+D.
+   */
+  shell(options?: ShellOptions): Promise<void> {
+    return startShell(this, options)
+  }
+
+  /**
+   * Print an error to stderr
+   *
+   * A `ClappError` is shown as a message with a hint to `--help`,
+   * anything else with its stack.
+   */
+  outputError(error: unknown): void {
+    if (error instanceof ClappError) {
+      const diagnostic = this.getDiagnostic(error)
+      const location = diagnostic
+        ? `\n\n${formatDiagnostic(diagnostic, { columns: process.stderr.columns, color: style.supportsColor && !!process.stderr.isTTY })}`
+        : ''
+      const command = this.matchedCommand?.name ? ` ${this.matchedCommand.name}` : ''
+      const hint = this.showHelpOnExit
+        ? `\n${style.dim(t('help.runForUsage', { command: `${this.name}${command}` }))}`
+        : ''
+      process.stderr.write(`${style.red(t('prefix.error'))} ${error.message}${location}${hint}\n`)
+    }
+    else {
+      const message = error instanceof Error ? error.stack || error.message : String(error)
+      process.stderr.write(`${style.red(t('prefix.error'))} ${message}\n`)
+    }
+  }
+
+  /**
+   * Describe a parse error with the argv it was found in and the usage of the matched command,
+   * for tools rendering errors themselves
+   * @returns `undefined` for errors without a `location` in argv
+   */
+  getDiagnostic(error: unknown): ParseDiagnostic | undefined {
+    if (!(error instanceof ClappError) || !error.location) {
+      return undefined
+    }
+    return {
+      message: error.message,
+      name: this.name,
+      argv: this.argv,
+      index: error.location.index,
+      span: error.location.span,
+      origin: this.argvOrigins[error.location.index],
+      hint: error.hint,
+      usage: (this.matchedCommand || this.globalCommand).getHelpModel().usage,
+    }
+  }
+
+  /**
+   * Load option values from the config files named by `config.configName`
+   *
+   * Values are used by the next `parse()`, below env variables and argv.
+   */
+  async loadConfig(cwd?: string): Promise<{ [k: string]: any }> {
+    this.configValues = this.config.configName
+      ? await loadConfig(this.config.configName, cwd)
+      : {}
+    return this.configValues
+  }
+
+  /**
+   * Get the environment variables an option is read from, most specific first
+   */
+  getOptionEnvNames(option: Option): string[] {
+    const names = option.config.env === undefined
+      ? []
+      : Array.prototype.concat.call([], option.config.env)
+
+    if (this.config.envPrefix && option.name !== 'help' && option.name !== 'version') {
+      const name = option.name.replace(/\./g, '_').replace(/([a-z\d])([A-Z])/g, '$1_$2')
+      names.push(`${this.config.envPrefix}_${name}`.toUpperCase())
+    }
+    return names
+  }
+
+  private getOptionEnvValue(option: Option): any {
+    for (const name of this.getOptionEnvNames(option)) {
+      const value = process.env[name]
+      if (value === undefined) {
+        continue
+      }
+      if (option.isBoolean) {
+        return !['', 'false', '0', 'no'].includes(value.toLowerCase())
+      }
+      return value
+    }
+    return undefined
+  }
+
+  /**
+   * Find the command names closest to mistyped positional args
+   * @param args Positional args, starting with the command name
+   */
+  getCommandSuggestions(args: ReadonlyArray<string>): string[] {
+    // Compare each name against as many args as it has words
+    const namesByLength = new Map<number, string[]>()
+    for (const command of this.commands) {
+      if (command.config.hidden || command.name === '') {
+        continue
+      }
+      const segments = command.name.split(' ')
+      const names = [
+        command.name,
+        ...command.aliasNames
+          .filter(alias => alias !== '!')
+          .map(alias => alias.includes(' ') ? alias : [...segments.slice(0, -1), alias].join(' ')),
+      ]
+      for (const name of names) {
+        const length = name.split(' ').length
+        namesByLength.set(length, [...(namesByLength.get(length) || []), name])
+      }
+    }
+
+    return [...namesByLength.entries()]
+      .flatMap(([length, names]) => findSuggestions(args.slice(0, length).join(' '), names))
+      .slice(0, 3)
+  }
+
+  /**
+   * Find the command matching the most leading positional args
+   */
+  private matchCommand(argv: string[]): { command: Command, parsed: ParsedInfo, length: number } | undefined {
+    let matched: { command: Command, parsed: ParsedInfo, length: number } | undefined
+    for (const command of this.commands) {
+      const parsed = this.mri(argv, command)
+      const length = command.matchArgs(parsed.args)
+      if (length > (matched ? matched.length : 0)) {
+        matched = { command, parsed, length }
+      }
+    }
+    return matched
+  }
+
+  /**
+   * Expand `@file` args when `config.responseFiles` is set,
+   * unless the command they are passed to opts out
+   */
+  private expandResponseFiles(argv: string[]): ExpandedArgv {
+    const { responseFiles } = this.config
+    const unexpanded = { args: argv, origins: argv.map(() => undefined) }
+    if (!responseFiles || !argv.some(arg => arg.startsWith('@'))) {
+      return unexpanded
+    }
+
+    const command = this.matchCommand(argv)?.command ?? this.commands.find(command => command.name === '')
+    if (command?.config.responseFiles === false) {
+      return unexpanded
+    }
+    return expandResponseFiles(argv, responseFiles === true ? {} : responseFiles)
+  }
+
   private mri(
     argv: string[],
     /** Matched command */ command?: Command,
-  ): ParsedArgv {
+  ): ParsedInfo {
     // All added options
     const cliOptions = [
       ...this.globalCommand.options,
-      ...(command ? command.options : []),
+      ...(command ? [...command.inheritedOptions, ...command.options] : []),
     ]
     const mriOptions = getMriOptions(cliOptions)
 
+    // Treat the args of a pass-through command like args after `--`
+    if (command?.config.passThrough) {
+      const index = command.getPassThroughIndex(argv)
+      if (index < argv.length && argv[index] !== '--') {
+        argv = [...argv.slice(0, index), '--', ...argv.slice(index)]
+      }
+    }
+
     // Extract everything after `--` since mri doesn't support it
     let argsAfterDoubleDashes: string[] = []
     const doubleDashesIndex = argv.indexOf('--')
@@ -265,6 +859,15 @@ export class CLI extends EventEmitter {
       { _: [] },
     )
 
+    for (const cliOption of cliOptions) {
+      if (cliOption.config.shape && cliOption.names.some(name => name in parsed)) {
+        const values = mergeOptionValues(argv, parsed, cliOption)
+        for (const name of cliOption.names) {
+          parsed[name] = values
+        }
+      }
+    }
+
     const args = parsed._
 
     const options: { [k: string]: any } = {
@@ -279,11 +882,35 @@ export class CLI extends EventEmitter {
 
     const transforms = Object.create(null)
 
+    const sources: { [k: string]: OptionSource } = {}
+
     for (const cliOption of cliOptions) {
       if (!ignoreDefault && cliOption.config.default !== undefined) {
         for (const name of cliOption.names) {
           options[name] = cliOption.config.default
         }
+        sources[cliOption.name] = 'default'
+      }
+
+      // Config file values, then environment variables, override the default
+      const configValue = this.configValues[cliOption.name]
+      if (configValue !== undefined) {
+        for (const name of cliOption.names) {
+          options[name] = configValue
+        }
+        sources[cliOption.name] = 'config'
+      }
+
+      const envValue = this.getOptionEnvValue(cliOption)
+      if (envValue !== undefined) {
+        for (const name of cliOption.names) {
+          options[name] = envValue
+        }
+        sources[cliOption.name] = 'env'
+      }
+
+      if (cliOption.names.some(name => name in parsed)) {
+        sources[cliOption.name] = 'argv'
       }
 
       // If options type is defined
@@ -302,46 +929,234 @@ export class CLI extends EventEmitter {
     for (const key of Object.keys(parsed)) {
       if (key !== '_') {
         const keys = key.split('.')
-        setDotProp(options, keys, parsed[key])
+        const mapOption = cliOptions.find(option => option.config.shape === 'map' && option.names.includes(key))
+        setDotProp(
+          options,
+          keys,
+          mapOption
+            ? shapeOptionValue(parsed[key], 'map', t('labels.option', { name: mapOption.rawName }))
+            : parsed[key],
+        )
         setByType(options, transforms)
       }
     }
 
+    for (const cliOption of cliOptions) {
+      const { shape } = cliOption.config
+      if (shape) {
+        const value = shapeOptionValue(options[cliOption.name], shape, t('labels.option', { name: cliOption.rawName }))
+        for (const name of cliOption.names) {
+          options[name] = value
+        }
+      }
+    }
+
     return {
       args,
       options,
+      sources,
+    }
+  }
+
+  /**
+   * Coerce and validate parsed option values by their declared type, choices and range
+   */
+  private coerceOptions(): void {
+    const command = this.matchedCommand
+    const cliOptions = [
+      ...this.globalCommand.options,
+      ...(command ? [...command.inheritedOptions, ...command.options] : []),
+    ]
+
+    for (const cliOption of cliOptions) {
+      const schema = cliOption.valueSchema
+      const value = this.options[cliOption.name]
+      const { shape } = cliOption.config
+      if (
+        !hasValueSchema(schema)
+        || value === undefined
+        || shape === 'count'
+        // A flag without its value, reported by `checkOptionValue`
+        || (typeof value === 'boolean' && !cliOption.isBoolean && schema.type !== 'boolean' && schema.type !== Boolean)
+        || (shape === 'array' && value.some(isMissingValue))
+      ) {
+        continue
+      }
+
+      const label = t('labels.option', { name: cliOption.rawName })
+      let coerced: any
+      try {
+        coerced = shape === 'map'
+          ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, coerceValue(item, schema, label)]))
+          : coerceValue(value, schema, label)
+      }
+      catch (error) {
+        if (error instanceof ClappError && this.optionSources[cliOption.name] === 'argv') {
+          error.location ??= findOptionValueToken(this.argv, cliOption.names)
+        }
+        throw error
+      }
+      for (const name of cliOption.names) {
+        this.options[name] = coerced
+      }
+    }
+  }
+
+  /**
+   * Check if an option was passed in argv, env or a config file
+   * @param name Option name
+   */
+  isOptionSet(name: string): boolean {
+    const source = this.optionSources[name]
+    return source !== undefined && source !== 'default'
+  }
+
+  /**
+   * Get the deprecated commands and options used in the parsed argv, env or config files
+   */
+  getDeprecatedUsages(): DeprecatedUsage[] {
+    const command = this.matchedCommand || this.globalCommand
+    const usages: DeprecatedUsage[] = []
+
+    const { deprecated, replacement, removeIn } = command.config
+    if (deprecated) {
+      usages.push({ type: 'command', name: command.name, deprecated, replacement, removeIn })
+    }
+    for (const option of command.availableOptions) {
+      const { deprecated, replacement, removeIn } = option.config
+      if (deprecated && this.isOptionSet(option.name)) {
+        usages.push({ type: 'option', name: option.flag, deprecated, replacement, removeIn })
+      }
     }
+    return usages
   }
 
-  runMatchedCommand(): void {
+  /**
+   * Warn about used deprecated commands and options, and forward the values
+   * of deprecated options to their replacements unless those are set too
+   */
+  private applyDeprecations(): void {
+    const command = this.matchedCommand || this.globalCommand
+
+    for (const usage of this.getDeprecatedUsages()) {
+      const message = formatDeprecation(usage)
+      if (this.config.deprecationWarnings !== false && !this.printedDeprecations.has(message)) {
+        this.printedDeprecations.add(message)
+        process.stderr.write(`${style.warning(t('prefix.warning'))} ${message}\n`)
+      }
+
+      const option = usage.type === 'option' ? command.findOption(usage.name) : undefined
+      const target = option && usage.replacement ? command.findOption(usage.replacement) : undefined
+      if (option && target && !this.isOptionSet(target.name)) {
+        for (const name of target.names) {
+          this.options[name] = this.options[option.name]
+        }
+        this.optionSources[target.name] = this.optionSources[option.name]
+      }
+    }
+  }
+
+  /**
+   * Set the options implied by the passed options, unless they are passed too
+   */
+  private applyImpliedOptions(): void {
+    const command = this.matchedCommand || this.globalCommand
+    for (const option of command.availableOptions) {
+      if (!this.isOptionSet(option.name)) {
+        continue
+      }
+
+      const implied = option.impliedValues
+      for (const name of Object.keys(implied)) {
+        if (this.isOptionSet(name)) {
+          continue
+        }
+        const target = command.findOption(name)
+        for (const targetName of target ? target.names : [name]) {
+          this.options[targetName] = implied[name]
+        }
+      }
+    }
+  }
+
+  /**
+   * Run the action of the matched command
+   *
+   * Returns a promise when middleware is registered or the action is lazily loaded.
+   */
+  runMatchedCommand(): any {
     const { args, options, matchedCommand: command } = this
 
-    if (!command || !command.commandAction)
+    if (!command || !command.isRunnable)
       return
 
     command.checkUnknownOptions()
     command.checkOptionValue()
+    command.checkOptionRelations()
     command.checkRequiredArgs()
+    command.checkExcessArgs()
 
     const actionArgs: any[] = []
     command.args.forEach((arg, index) => {
+      const label = t('labels.argument', { name: arg.required ? `<${arg.value}>` : `[${arg.value}]` })
+      const schema = arg.config || {}
+      const coerce = (value: any) => {
+        if (value === undefined || !hasValueSchema(schema)) {
+          return value
+        }
+        try {
+          return coerceValue(value, schema, label)
+        }
+        catch (error) {
+          if (error instanceof ClappError) {
+            error.location ??= command.locateArg(index)
+          }
+          throw error
+        }
+      }
+      // Defaults of optional args are coerced like passed values
       if (arg.variadic) {
-        actionArgs.push(args.slice(index))
+        const values = args.slice(index)
+        actionArgs.push(coerce(values.length === 0 && schema.default !== undefined ? toArray(schema.default) : values))
       }
       else {
-        actionArgs.push(args[index])
+        actionArgs.push(coerce(args[index] ?? schema.default))
       }
     })
+    // Keep the options the last action param, whatever the number of args
+    if (command.config.allowExcessArgs) {
+      options._ = args.slice(command.args.length)
+    }
 
-    actionArgs.push(options)
+    const middleware = [
+      ...this.pluginMiddleware.pre,
+      ...this.globalCommand.middleware,
+      ...command.ancestorCommands.flatMap(parent => parent.middleware),
+      ...command.middleware,
+      ...this.pluginMiddleware.post,
+    ]
+
+    if (middleware.length === 0) {
+      return command.commandAction
+        ? command.commandAction.apply(this, [...actionArgs, options])
+        : command.loadAction().then(action => action.apply(this, [...actionArgs, options]))
+    }
 
-    return command.commandAction.apply(this, actionArgs)
+    const context: CommandContext = { cli: this, command, args: actionArgs, options, signal: this.signal }
+    return composeMiddleware(middleware, async (context) => {
+      const commandAction = await command.loadAction()
+      context.result = await commandAction.apply(this, [...context.args, context.options])
+      return context.result
+    })(context)
   }
 }
 
 /**
  * @param name The program name to display in help and version message
+ * @param config CLI config
  */
-export const cli = (name = ''): CLI => new CLI(name)
+export const cli = (name = '', config?: CLIConfig): CLI => new CLI(name, config)
+
+export type { CLIConfig }
 
 export default CLI
@@ -1,48 +1,120 @@
 import type CAC from './CLI'
+import type { CompletionHandler } from './completion'
+import type { HelpFormat, HelpModel, HelpModelOptions, HelpSection } from './help'
+import type { InferArgument, InferOption, ParsedOptions } from './infer'
+import type { Hook, Middleware } from './middleware'
 import type { OptionConfig } from './Option'
+import type { ArgvLocation, DeprecationOptions, ValueSchema } from './utils'
+import process from 'node:process'
+import { findOptionToken } from './diagnostics'
+import { groupHelpEntries, joinHelpSections, renderHelp, renderHelpSections } from './help'
+import { t } from './i18n'
+import { afterRunMiddleware, beforeRunMiddleware } from './middleware'
 import Option from './Option'
 import { platformInfo as bunPlatformInfo } from './runtimes/bun'
 import { platformInfo as nodePlatformInfo } from './runtimes/node'
+import { style } from './style'
 import {
+  camelcaseOptionName,
+  checkArgsSyntax,
   ClappError,
+  describeValueSchema,
   findAllBrackets,
-  findLongest,
-  padRight,
+  findSuggestions,
+  formatSuggestions,
+  getOptionFlags,
+  isMissingValue,
+  normalizeOptionName,
   removeBrackets,
+  toArray,
 } from './utils'
+import { getColumns } from './utils/index'
+
+interface ArgumentConfig extends ValueSchema {
+  /** Value of an optional arg when it isn't passed */
+  default?: any
+}
 
 interface CommandArg {
   required: boolean
   value: string
   variadic: boolean
+  description?: string
+  config?: ArgumentConfig
 }
 
-interface HelpSection {
-  title?: string
-  body: string
-}
-
-interface CommandConfig {
+interface CommandConfig extends DeprecationOptions {
   allowUnknownOptions?: boolean
+  /** Pass surplus positional args to the action instead of failing */
+  allowExcessArgs?: boolean
+  /**
+   * Pass everything after the command args through unparsed, in `options['--']`,
+   * e.g. for a command wrapping another program
+   */
+  passThrough?: boolean
+  /** Set to `false` to pass `@file` args through, see `CLIConfig.responseFiles` */
+  responseFiles?: boolean
   ignoreOptionDefaultValue?: boolean
+  /** Leave the command out of help and completion */
+  hidden?: boolean
+  /**
+   * Warn when the command is used and leave it out of help without `--all`,
+   * optionally with a message
+   */
+  deprecated?: boolean | string
+  /** Heading to list the command under in help, instead of `Commands` */
+  category?: string
+}
+
+interface OptionGroup {
+  /** `atLeastOne` needs one or more of the options, `exactlyOne` needs one */
+  type: 'atLeastOne' | 'exactlyOne'
+  /** Option names */
+  names: string[]
 }
 
 type HelpCallback = (sections: HelpSection[]) => void | HelpSection[]
 
 type CommandExample = ((bin: string) => string) | string
 
-export class Command {
+type CommandAction = (...args: any[]) => any
+
+/**
+ * An action typed by the command args and options, checked bivariantly
+ * so callbacks may annotate narrower types
+ */
+type ActionCallback<Args extends any[], Options> = any[] extends Args
+  ? CommandAction
+  : {
+      // eslint-disable-next-line ts/method-signature-style
+      bivarianceHack(...args: [...Args, Options]): any
+    }['bivarianceHack']
+
+/**
+ * A lazily imported command module, exporting its action as `default` or `action`
+ */
+type CommandModule = CommandAction | { default?: CommandAction, action?: CommandAction }
+
+type CommandLoader = () => Promise<CommandModule>
+
+export class Command<Args extends any[] = any[], Options extends object = ParsedOptions, CommandName extends string = string> {
   options: Option[]
   aliasNames: string[]
   /* Parsed command name */
   name: string
   args: CommandArg[]
-  commandAction?: (...args: any[]) => any
+  commandAction?: CommandAction
+  commandLoader?: CommandLoader
   usageText?: string
   versionNumber?: string
   examples: CommandExample[]
   helpCallback?: HelpCallback
   globalCommand?: GlobalCommand
+  middleware: Middleware[]
+  completeHandler?: CompletionHandler
+  optionGroups: OptionGroup[]
+  /** Added by the CLI itself, like the commands of `completion()`, the option groups of the CLI don't apply to it */
+  builtIn?: boolean
 
   constructor(
     public rawName: string,
@@ -52,9 +124,12 @@ export class Command {
   ) {
     this.options = []
     this.aliasNames = []
+    checkArgsSyntax(rawName)
     this.name = removeBrackets(rawName)
     this.args = findAllBrackets(rawName)
     this.examples = []
+    this.middleware = []
+    this.optionGroups = []
 
     // Set default value for config if it's undefined
     if (!config) {
@@ -72,6 +147,24 @@ export class Command {
     return this
   }
 
+  /**
+   * Accept more positional args than the command name declares,
+   * they are passed to the action in `options._`
+   */
+  allowExcessArgs(): this {
+    this.config.allowExcessArgs = true
+    return this
+  }
+
+  /**
+   * Stop parsing after the command name and its args, the remaining argv is passed
+   * to the action unparsed in `options['--']`, e.g. `mycli exec docker run --rm app`
+   */
+  passThrough(): this {
+    this.config.passThrough = true
+    return this
+  }
+
   ignoreOptionDefaultValue(): this {
     this.config.ignoreOptionDefaultValue = true
     return this
@@ -94,9 +187,65 @@ export class Command {
    * @param description Option description
    * @param config Option config
    */
-  option(rawName: string, description: string, config?: OptionConfig): this {
+  option<RawName extends string, const Config extends OptionConfig = object>(
+    rawName: RawName,
+    description: string,
+    config?: Config,
+  ): Command<Args, Options & InferOption<RawName, Config>, CommandName> {
     const option = new Option(rawName, description, config)
     this.options.push(option)
+    return this as unknown as Command<Args, Options & InferOption<RawName, Config>, CommandName>
+  }
+
+  /**
+   * Describe an argument declared in the command name, its type follows the config
+   * @param name Argument name, e.g. `port` or `<port>`
+   * @param description Argument description
+   * @param config Argument config
+   */
+  argument<Name extends string, const Config extends ArgumentConfig = object>(
+    name: Name,
+    description: string,
+    config?: Config,
+  ): Command<InferArgument<CommandName, Args, Name, Config>, Options, CommandName> {
+    const value = name.replace(/^[<[]/, '').replace(/[>\]]$/, '').replace(/^\.\.\./, '')
+    const arg = this.args.find(arg => arg.value === value)
+    if (!arg) {
+      throw new ClappError(t('errors.argumentNotDeclared', { name, command: this.rawName }))
+    }
+    if (arg.required && config?.default !== undefined) {
+      throw new ClappError(t('errors.requiredArgumentDefault', { name, command: this.rawName }))
+    }
+    arg.description = description
+    arg.config = Object.assign({}, config)
+    return this as unknown as Command<InferArgument<CommandName, Args, Name, Config>, Options, CommandName>
+  }
+
+  /**
+   * Require at least one of the options to be passed
+   * @param names Option names or flags, e.g. `['--file', '--url']`
+   */
+  atLeastOneOf(names: string[]): this {
+    this.optionGroups.push({ type: 'atLeastOne', names: names.map(normalizeOptionName) })
+    return this
+  }
+
+  /**
+   * Require exactly one of the options to be passed
+   * @param names Option names or flags, e.g. `['--json', '--yaml']`
+   */
+  exactlyOneOf(names: string[]): this {
+    this.optionGroups.push({ type: 'exactlyOne', names: names.map(normalizeOptionName) })
+    return this
+  }
+
+  /**
+   * Deprecate the command, using it prints a warning once
+   * @param message Deprecation message, e.g. what changed
+   * @param options The replacement command and when the command is removed
+   */
+  deprecated(message?: string, options?: DeprecationOptions): this {
+    Object.assign(this.config, { deprecated: message || true }, options)
     return this
   }
 
@@ -105,11 +254,76 @@ export class Command {
     return this
   }
 
-  action(callback: (...args: any[]) => any): this {
+  action(callback: ActionCallback<Args, Options>): this {
     this.commandAction = callback
     return this
   }
 
+  /**
+   * Import the action only when the command is run, e.g. `() => import('./commands/deploy')`
+   *
+   * The name, args and options stay declared here, so help and completion
+   * don't load the module.
+   */
+  lazy(loader: CommandLoader): this {
+    this.commandLoader = loader
+    return this
+  }
+
+  /**
+   * Whether the command has an action or a loader for one
+   */
+  get isRunnable(): boolean {
+    return !!(this.commandAction || this.commandLoader)
+  }
+
+  /**
+   * Get the action, importing it with the lazy loader on first use
+   */
+  async loadAction(): Promise<CommandAction> {
+    if (!this.commandAction && this.commandLoader) {
+      const mod = await this.commandLoader()
+      const action = typeof mod === 'function' ? mod : mod.default ?? mod.action
+      if (typeof action !== 'function') {
+        throw new ClappError(t('errors.noActionExport', { command: this.rawName }))
+      }
+      this.commandAction = action
+    }
+    return this.commandAction!
+  }
+
+  /**
+   * Supply shell completion candidates for arguments and option values at runtime
+   */
+  complete(handler: CompletionHandler): this {
+    this.completeHandler = handler
+    return this
+  }
+
+  /**
+   * Add a middleware which wraps the action of this command and its sub-commands
+   *
+   * Middleware runs in the order it was added, call `next()` to continue.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Run a hook before the action, it may mutate `context.options`
+   */
+  beforeRun(hook: Hook): this {
+    return this.use(beforeRunMiddleware(hook))
+  }
+
+  /**
+   * Run a hook after the action, also when it throws
+   */
+  afterRun(hook: Hook): this {
+    return this.use(afterRunMiddleware(hook))
+  }
+
   /**
    * Check if a command name is matched by this command
    * @param name Command name
@@ -118,6 +332,170 @@ export class Command {
     return this.name === name || this.aliasNames.includes(name)
   }
 
+  /**
+   * Get the number of leading positional args matched by this command's name
+   *
+   * Multi-word names like `db migrate` consume one arg per word, an alias
+   * without spaces replaces the last word (`db m`). Returns `0` when not matched.
+   * @param args Parsed positional args
+   */
+  matchArgs(args: ReadonlyArray<string>): number {
+    if (this.name === '') {
+      return 0
+    }
+
+    const segments = this.name.split(' ')
+    const candidates = [
+      segments,
+      ...this.aliasNames.map((alias) => {
+        return alias.includes(' ')
+          ? alias.split(' ')
+          : [...segments.slice(0, -1), alias]
+      }),
+    ]
+
+    let length = 0
+    for (const candidate of candidates) {
+      if (
+        candidate.length > length
+        && candidate.every((segment, index) => args[index] === segment)
+      ) {
+        length = candidate.length
+      }
+    }
+    return length
+  }
+
+  /**
+   * The closest registered command whose name is a prefix of this one,
+   * e.g. `db` for `db migrate`
+   */
+  get parentCommand(): Command | undefined {
+    const segments = this.name.split(' ')
+    for (let i = segments.length - 1; i > 0; i--) {
+      const parentName = segments.slice(0, i).join(' ')
+      const parent = this.cli.commands.find(command => command.name === parentName)
+      if (parent) {
+        return parent
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Parent commands from the root down, excluding this command
+   */
+  get ancestorCommands(): Command[] {
+    const ancestors: Command[] = []
+    let parent = this.parentCommand
+    while (parent) {
+      ancestors.unshift(parent)
+      parent = parent.parentCommand
+    }
+    return ancestors
+  }
+
+  /**
+   * Direct sub-commands of this command
+   *
+   * For the global command these are the top-level commands.
+   */
+  get childCommands(): Command[] {
+    if (this.isGlobalCommand) {
+      return this.cli.commands.filter(command => !command.parentCommand)
+    }
+    return this.cli.commands.filter(command => command.parentCommand === this)
+  }
+
+  /**
+   * Options inherited from parent commands
+   */
+  get inheritedOptions(): Option[] {
+    return this.ancestorCommands.flatMap(command => command.options)
+  }
+
+  /**
+   * Global, inherited and own options of this command
+   */
+  get availableOptions(): Option[] {
+    return this.isGlobalCommand
+      ? this.options
+      : [...this.cli.globalCommand.options, ...this.inheritedOptions, ...this.options]
+  }
+
+  /**
+   * Find an available option by name or flag
+   * @param name Option name or flag
+   */
+  findOption(name: string): Option | undefined {
+    name = normalizeOptionName(name)
+    return this.availableOptions.find(option => option.names.includes(name))
+  }
+
+  /**
+   * Option groups of the CLI, parent commands and this command, only its own for built-in commands
+   */
+  get availableOptionGroups(): OptionGroup[] {
+    return this.isGlobalCommand || this.builtIn
+      ? this.optionGroups
+      : [
+          ...this.cli.globalCommand.optionGroups,
+          ...this.ancestorCommands.flatMap(command => command.optionGroups),
+          ...this.optionGroups,
+        ]
+  }
+
+  /**
+   * Describe the conflicts, requirements, implications and groups of an option for help output
+   */
+  describeOptionRelations(option: Option): string {
+    const flagOf = (name: string) => this.findOption(name)?.flag ?? `--${name}`
+    const parts: string[] = []
+
+    const conflicts = toArray(option.config.conflicts)
+    if (conflicts.length > 0) {
+      parts.push(t('help.conflicts', { flags: conflicts.map(flagOf).join(', ') }))
+    }
+    const requires = toArray(option.config.requires)
+    if (requires.length > 0) {
+      parts.push(t('help.requires', { flags: requires.map(flagOf).join(', ') }))
+    }
+    const implies = Object.keys(option.impliedValues)
+    if (implies.length > 0) {
+      parts.push(t('help.implies', { flags: implies.map(flagOf).join(', ') }))
+    }
+    for (const group of this.availableOptionGroups) {
+      if (group.names.includes(option.name)) {
+        const others = group.names.filter(name => name !== option.name)
+        const flags = others.map(flagOf).join(', ')
+        parts.push(group.type === 'exactlyOne' ? t('help.exactlyOne', { flags }) : t('help.atLeastOne', { flags }))
+      }
+    }
+    return parts.join(' ')
+  }
+
+  /**
+   * Describe the shape, choices, range, default, relations and env variables of an option
+   * @param option Option to describe
+   * @param includeDefault Whether to include the default value
+   */
+  describeOptionDetails(option: Option, includeDefault = true): string[] {
+    const shapes = {
+      array: 'help.repeatable',
+      count: 'help.counted',
+      map: 'help.keyValue',
+    }
+    return [
+      option.config.shape ? t(shapes[option.config.shape]) : '',
+      describeValueSchema(option.valueSchema),
+      !includeDefault || option.config.default === undefined
+        ? ''
+        : t('help.default', { value: option.config.default }),
+      this.describeOptionRelations(option),
+      ...this.cli.getOptionEnvNames(option).map(name => t('help.env', { name })),
+    ].filter(Boolean)
+  }
+
   get isDefaultCommand(): boolean {
     return this.name === '' || this.aliasNames.includes('!')
   }
@@ -137,110 +515,116 @@ export class Command {
     })
   }
 
-  outputHelp(): void {
+  /**
+   * Collect what help output shows for this command
+   *
+   * Hidden commands and options are left out, and deprecated ones unless `all` is set.
+   */
+  getHelpModel({ all = false }: HelpModelOptions = {}): HelpModel {
     const { name, commands } = this.cli
-    const {
-      versionNumber,
-      options: globalOptions,
-      helpCallback,
-    } = this.cli.globalCommand
-
-    let sections: HelpSection[] = [
-      {
-        body: `${name}${versionNumber ? `/${versionNumber}` : ''}`,
-      },
-    ]
+    const { versionNumber, options: globalOptions } = this.cli.globalCommand
 
-    sections.push({
-      title: 'Usage',
-      body: `  $ ${name} ${this.usageText || this.rawName}`,
-    })
-
-    const showCommands
-      = (this.isGlobalCommand || this.isDefaultCommand) && commands.length > 0
-
-    if (showCommands) {
-      const longestCommandName = findLongest(
-        commands.map(command => command.rawName),
-      )
-      sections.push({
-        title: 'Commands',
-        body: commands
-          .map((command) => {
-            return `  ${padRight(
-              command.rawName,
-              longestCommandName.length,
-            )}  ${command.description}`
-          })
-          .join('\n'),
-      })
-      sections.push({
-        title: `For more info, run any command with the \`--help\` flag`,
-        body: commands
-          .map(
-            command =>
-              `  $ ${name}${
-                command.name === '' ? '' : ` ${command.name}`
-              } --help`,
-          )
-          .join('\n'),
-      })
-    }
+    const listedCommands = (
+      this.isGlobalCommand || this.isDefaultCommand
+        ? commands.filter(command => !command.parentCommand)
+        : this.childCommands
+    ).filter(command => !command.config.hidden && (all || !command.config.deprecated))
 
     let options = this.isGlobalCommand
       ? globalOptions
-      : [...this.options, ...(globalOptions || [])]
+      : [...this.options, ...this.inheritedOptions, ...(globalOptions || [])]
     if (!this.isGlobalCommand && !this.isDefaultCommand) {
       options = options.filter(option => option.name !== 'version')
     }
-    if (options.length > 0) {
-      const longestOptionName = findLongest(
-        options.map(option => option.rawName),
-      )
-      sections.push({
-        title: 'Options',
-        body: options
-          .map((option) => {
-            return `  ${padRight(option.rawName, longestOptionName.length)}  ${
-              option.description
-            } ${
-              option.config.default === undefined
-                ? ''
-                : `(default: ${option.config.default})`
-            }`
-          })
-          .join('\n'),
-      })
+    options = options.filter(option => !option.config.hidden && (all || !option.config.deprecated))
+
+    return {
+      title: `${name}${versionNumber ? `/${versionNumber}` : ''}`,
+      description: this.isGlobalCommand ? undefined : (this.description && t(this.description)) || undefined,
+      usage: `${name} ${this.usageText || this.rawName}`,
+      arguments: this.args.some(arg => arg.description)
+        ? this.args.map(arg => ({
+            name: arg.required ? `<${arg.variadic ? '...' : ''}${arg.value}>` : `[${arg.variadic ? '...' : ''}${arg.value}]`,
+            description: arg.description ? t(arg.description) : '',
+            notes: [
+              describeValueSchema(arg.config || {}),
+              arg.config?.default === undefined ? '' : t('help.default', { value: arg.config.default }),
+            ].filter(Boolean),
+          }))
+        : [],
+      commands: groupHelpEntries(
+        t('help.commands'),
+        listedCommands,
+        command => command.config.category && t(command.config.category),
+        command => ({
+          name: command.rawName,
+          description: command.description && t(command.description),
+          notes: [],
+          deprecated: command.config.deprecated,
+        }),
+      ),
+      commandHelpUsages: listedCommands.map(
+        command => `${name}${command.name === '' ? '' : ` ${command.name}`} --help`,
+      ),
+      options: groupHelpEntries(
+        t('help.options'),
+        options,
+        option => option.config.category && t(option.config.category),
+        option => ({
+          name: option.rawName,
+          description: option.description && t(option.description),
+          notes: this.describeOptionDetails(option),
+          deprecated: option.config.deprecated,
+        }),
+      ),
+      examples: this.examples.map((example) => {
+        if (typeof example === 'function') {
+          return example(name)
+        }
+        return example
+      }),
+      sections: this.cli.helpSections,
     }
+  }
 
-    if (this.examples.length > 0) {
-      sections.push({
-        title: 'Examples',
-        body: this.examples
-          .map((example) => {
-            if (typeof example === 'function') {
-              return example(name)
-            }
-            return example
-          })
-          .join('\n'),
-      })
+  /**
+   * Render help for this command
+   *
+   * Text output wraps to the width of the help stream and applies `helpCallback`.
+   * @param format `text`, `markdown` or `json`
+   * @param options Help model options
+   */
+  formatHelp(format: HelpFormat = 'text', options?: HelpModelOptions): string {
+    const model = this.getHelpModel(options)
+    if (format !== 'text') {
+      return renderHelp(model, format)
+    }
+
+    const output = this.cli.config.helpOutput || process.stdout
+    const renderOptions = {
+      columns: getColumns(output),
+      color: style.supportsColor && !!(output as { isTTY?: boolean }).isTTY,
     }
+    let sections = renderHelpSections(model, renderOptions)
 
+    // Titles are styled after the callback, so it can match them as plain text
+    const { helpCallback } = this.cli.globalCommand
     if (helpCallback) {
       sections = helpCallback(sections) || sections
     }
+    return joinHelpSections(sections, renderOptions)
+  }
 
-    // eslint-disable-next-line no-console
-    console.log(
-      sections
-        .map((section) => {
-          return section.title
-            ? `${section.title}:\n${section.body}`
-            : section.body
-        })
-        .join('\n\n'),
-    )
+  outputHelp(options?: HelpModelOptions): void {
+    const help = this.formatHelp('text', options)
+    const { helpOutput } = this.cli.config
+    if (helpOutput) {
+      helpOutput.write(`${help}\n`)
+    }
+    else {
+      // eslint-disable-next-line no-console
+      console.log(help)
+    }
   }
 
   outputVersion(): void {
@@ -260,14 +644,88 @@ export class Command {
     }
   }
 
+  /**
+   * Find the indexes of the positional args in argv before `--`, including the command name,
+   * skipping options with their values
+   * @param argv Args without the program and script paths
+   */
+  getPositionalIndexes(argv: string[]): number[] {
+    const indexes: number[] = []
+    for (let index = 0; index < argv.length && argv[index] !== '--'; index++) {
+      const arg = argv[index]
+      if (arg.startsWith('-') && arg !== '-') {
+        const option = this.availableOptions.find(option => getOptionFlags(option).includes(arg))
+        if (option && !option.isBoolean) {
+          index++
+        }
+        continue
+      }
+      indexes.push(index)
+    }
+    return indexes
+  }
+
+  /**
+   * Find where the pass-through args start in argv: after the command name and args
+   * @param argv Args without the program and script paths
+   */
+  getPassThroughIndex(argv: string[]): number {
+    const needed = this.name.split(' ').filter(Boolean).length + this.args.filter(arg => !arg.variadic).length
+    const positionals = this.getPositionalIndexes(argv)
+    if (positionals.length >= needed) {
+      return needed === 0 ? 0 : positionals[needed - 1] + 1
+    }
+    const doubleDashesIndex = argv.indexOf('--')
+    return doubleDashesIndex === -1 ? argv.length : doubleDashesIndex
+  }
+
+  /**
+   * Find where a positional arg is in `cli.argv`, for the location of parse errors
+   * @param position Index of the arg in `cli.args`
+   */
+  locateArg(position: number): ArgvLocation | undefined {
+    const { argv, matchedCommandName } = this.cli
+    const offset = matchedCommandName ? matchedCommandName.split(' ').length : 0
+    const index = this.getPositionalIndexes(argv)[offset + position]
+    return index === undefined ? undefined : { index, span: [0, argv[index].length] }
+  }
+
+  /**
+   * Required args which were not passed
+   */
+  getMissingArgs(): CommandArg[] {
+    return this.args
+      .filter(arg => arg.required)
+      .slice(this.cli.args.length)
+  }
+
   checkRequiredArgs(): void {
-    const minimalArgsCount = this.args.filter(arg => arg.required).length
+    const missing = this.getMissingArgs()
+    if (missing.length > 0) {
+      throw new ClappError(t('errors.missingArgs', { command: this.rawName }), {
+        location: { index: this.cli.argv.length, span: [0, 1] },
+        hint: t('hints.passArgs', {
+          args: missing.map(arg => `\`<${arg.variadic ? '...' : ''}${arg.value}>\``).join(' '),
+        }),
+      })
+    }
+  }
 
-    if (this.cli.args.length < minimalArgsCount) {
-      throw new ClappError(
-        `missing required args for command \`${this.rawName}\``,
-      )
+  /**
+   * Check that no more positional args were passed than the command declares
+   */
+  checkExcessArgs(): void {
+    const { args } = this.cli
+    if (this.config.allowExcessArgs || this.args.some(arg => arg.variadic) || args.length <= this.args.length) {
+      return
     }
+    const expected = this.args.length === 0
+      ? t('errors.expectedNoArgs')
+      : t('errors.expectedAtMost', { count: this.args.length })
+    throw new ClappError(
+      t('errors.tooManyArgs', { command: this.rawName, expected, received: args.slice(this.args.length).join(' ') }),
+      { location: this.locateArg(this.args.length), hint: t('hints.quoteArgs') },
+    )
   }
 
   /**
@@ -284,32 +742,120 @@ export class Command {
           name !== '--'
           && !this.hasOption(name)
           && !globalCommand.hasOption(name)
+          && !this.ancestorCommands.some(command => command.hasOption(name))
         ) {
+          const suggestions = this.getOptionSuggestions(name)
           throw new ClappError(
-            `Unknown option \`${name.length > 1 ? `--${name}` : `-${name}`}\``,
+            `${t('errors.unknownOption', { name: name.length > 1 ? `--${name}` : `-${name}` })}${formatSuggestions(suggestions)}`,
+            {
+              location: findOptionToken(this.cli.argv, [name]),
+              hint: suggestions.length === 0 ? t('hints.doubleDash') : undefined,
+            },
           )
         }
       }
     }
   }
 
+  /**
+   * Find the known option flags closest to a mistyped option name
+   * @param name Parsed (camelCased) option name
+   */
+  getOptionSuggestions(name: string): string[] {
+    const flags = new Map<string, string>()
+    const options = [...this.cli.globalCommand.options, ...this.inheritedOptions, ...this.options]
+    for (const option of options) {
+      for (const flag of getOptionFlags(option)) {
+        flags.set(camelcaseOptionName(flag.replace(/^-{1,2}/, '')), flag)
+      }
+    }
+
+    return findSuggestions(name, [...flags.keys()]).map(key => flags.get(key)!)
+  }
+
   /**
    * Check if the required string-type options exist
    */
   checkOptionValue(): void {
+    const [option] = this.getMissingOptionValues()
+    if (option) {
+      const value = option.rawName.slice(option.rawName.search(/[<[]/))
+      throw new ClappError(t('errors.optionValueMissing', { name: option.rawName }), {
+        location: findOptionToken(this.cli.argv, option.names),
+        hint: t('hints.passValue', { flag: option.flag, value }),
+      })
+    }
+  }
+
+  /**
+   * Options which require a value but were passed as a bare flag
+   */
+  getMissingOptionValues(): Option[] {
     const { options: parsedOptions, globalCommand } = this.cli
-    const options = [...globalCommand.options, ...this.options]
-    for (const option of options) {
+    const options = [...globalCommand.options, ...this.inheritedOptions, ...this.options]
+    return options.filter((option) => {
       const value = parsedOptions[option.name.split('.')[0]]
       // Check required option value
       if (option.required) {
+        if (option.config.shape === 'array') {
+          return toArray(value).some(isMissingValue)
+        }
         const hasNegated = options.some(
           o => o.negated && o.names.includes(option.name),
         )
-        if (value === true || (value === false && !hasNegated)) {
-          throw new ClappError(`option \`${option.rawName}\` value is missing`)
+        return value === true || (value === false && !hasNegated)
+      }
+      return false
+    })
+  }
+
+  /**
+   * Check the conflicts, requirements and groups of the passed options
+   */
+  checkOptionRelations(): void {
+    const isSet = (option: Option) => this.cli.isOptionSet(option.name)
+
+    for (const option of this.availableOptions) {
+      if (!isSet(option)) {
+        continue
+      }
+
+      for (const name of toArray(option.config.conflicts)) {
+        const other = this.findOption(name)
+        if (other && isSet(other)) {
+          throw new ClappError(t('errors.optionConflict', { name: option.flag, other: other.flag }), {
+            location: findOptionToken(this.cli.argv, other.names),
+          })
         }
       }
+
+      for (const name of toArray(option.config.requires)) {
+        const other = this.findOption(name)
+        if (!other || !isSet(other)) {
+          throw new ClappError(
+            t('errors.optionRequires', { name: option.flag, other: other ? other.flag : `--${name}` }),
+            { location: findOptionToken(this.cli.argv, option.names) },
+          )
+        }
+      }
+    }
+
+    for (const group of this.availableOptionGroups) {
+      const options = group.names
+        .map(name => this.findOption(name))
+        .filter((option): option is Option => option !== undefined)
+      const passed = options.filter(isSet)
+
+      if (passed.length === 0) {
+        throw new ClappError(
+          t('errors.optionGroupRequired', { flags: options.map(option => `\`${option.flag}\``).join(', ') }),
+        )
+      }
+      if (group.type === 'exactlyOne' && passed.length > 1) {
+        throw new ClappError(t('errors.optionConflict', { name: passed[0].flag, other: passed[1].flag }), {
+          location: findOptionToken(this.cli.argv, passed[1].names),
+        })
+      }
     }
   }
 }
@@ -320,7 +866,18 @@ class GlobalCommand extends Command {
   }
 }
 
-export type { CommandConfig, CommandExample, HelpCallback }
+export type {
+  ActionCallback,
+  ArgumentConfig,
+  CommandAction,
+  CommandArg,
+  CommandConfig,
+  CommandExample,
+  CommandLoader,
+  CommandModule,
+  HelpCallback,
+  OptionGroup,
+}
 
 export { GlobalCommand }
 
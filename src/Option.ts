@@ -1,8 +1,44 @@
-import { camelcaseOptionName, removeBrackets } from './utils'
+import type { DeprecationOptions, OptionShape, ValueSchema, ValueType } from './utils'
+import {
+  camelcaseOptionName,
+  findLongest,
+  getOptionFlags,
+  normalizeOptionName,
+  removeBrackets,
+  toArray,
+} from './utils'
 
-interface OptionConfig {
+interface OptionConfig extends Omit<ValueSchema, 'type'>, DeprecationOptions {
   default?: any
-  type?: any[]
+  /**
+   * Value type, or `[fn]` to always collect the value into an array mapped by `fn`
+   */
+  type?: readonly any[] | ValueType
+  /**
+   * Collect repeated values into an `array`, a `count` of flags or a `map` of `key=value` pairs
+   */
+  shape?: OptionShape
+  /**
+   * Environment variable(s) to read the value from when it's not passed in argv
+   */
+  env?: string | string[]
+  /** Options which cannot be used together with this one */
+  conflicts?: string | string[]
+  /** Options which must be passed too when this one is */
+  requires?: string | string[]
+  /** Options set to `true` (or the given values) when this one is passed */
+  implies?: string | string[] | Record<string, any>
+  /** Prompt for the value with masked input, see `CLIConfig.interactive` */
+  secret?: boolean
+  /** Leave the option out of help and completion */
+  hidden?: boolean
+  /**
+   * Warn when the option is used and leave it out of help without `--all`,
+   * optionally with a message
+   */
+  deprecated?: boolean | string
+  /** Heading to list the option under in help, instead of `Options` */
+  category?: string
 }
 
 export default class Option {
@@ -58,6 +94,50 @@ export default class Option {
       this.isBoolean = true
     }
   }
+
+  /**
+   * Deprecate the option, using it prints a warning once
+   * @param message Deprecation message, e.g. what changed
+   * @param options The replacement option the value is forwarded to, and when the option is removed
+   */
+  deprecated(message?: string, options?: DeprecationOptions): this {
+    Object.assign(this.config, { deprecated: message || true }, options)
+    return this
+  }
+
+  /**
+   * The longest flag of this option, e.g. `--port` for `-p, --port <port>`
+   */
+  get flag(): string {
+    return findLongest(getOptionFlags(this))
+  }
+
+  /**
+   * Options implied by this one, keyed by option name
+   */
+  get impliedValues(): Record<string, any> {
+    const { implies } = this.config
+    const values: Record<string, any> = {}
+    if (implies && typeof implies === 'object' && !Array.isArray(implies)) {
+      for (const name of Object.keys(implies)) {
+        values[normalizeOptionName(name)] = implies[name]
+      }
+    }
+    else {
+      for (const name of toArray(implies)) {
+        values[normalizeOptionName(name)] = true
+      }
+    }
+    return values
+  }
+
+  /**
+   * The coercion and validation rules of this option
+   */
+  get valueSchema(): ValueSchema {
+    const { type, choices, min, max, parse } = this.config
+    return { type: typeof type === 'object' ? undefined : type, choices, min, max, parse }
+  }
 }
 
 export type { OptionConfig }
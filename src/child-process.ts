@@ -0,0 +1,79 @@
+import type { SpawnOptions } from 'node:child_process'
+import { spawn } from 'node:child_process'
+import os from 'node:os'
+import process from 'node:process'
+import { t } from './i18n'
+import { shutdown } from './shutdown'
+import { ClappError } from './utils'
+
+export interface ChildProcessOptions {
+  /** Working directory of the child */
+  cwd?: string
+  /** Environment of the child, merged over `process.env` */
+  env?: NodeJS.ProcessEnv
+  /**
+   * Signals received by this process which are forwarded to the child,
+   * SIGINT only when stdin is not a TTY
+   * @default ['SIGINT', 'SIGTERM', 'SIGHUP']
+   */
+  signals?: NodeJS.Signals[]
+}
+
+/**
+ * Run a program with inherited stdio, e.g. the args of a pass-through command
+ *
+ * Signals are forwarded to the child, which decides whether to exit, so the shutdown
+ * manager ignores them while the child runs. Ctrl+C in a terminal reaches the child
+ * directly, it is in the same foreground process group, so SIGINT is only forwarded
+ * when stdin is not a TTY. The exit code of the child is set as `process.exitCode`,
+ * a child killed by a signal exits with `128 + signal number`, like in a shell.
+ * @param command Program to run
+ * @param args Program args
+ * @param options Child process options
+ * @returns The exit code of the child
+ */
+export function runChildProcess(command: string, args: string[] = [], options: ChildProcessOptions = {}): Promise<number> {
+  const { cwd, env, signals = ['SIGINT', 'SIGTERM', 'SIGHUP'] } = options
+  const spawnOptions: SpawnOptions = {
+    cwd,
+    env: env ? { ...process.env, ...env } : process.env,
+    stdio: 'inherit',
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, spawnOptions)
+
+    const forward = (signal: NodeJS.Signals) => {
+      // The terminal sent it to the child too, a second SIGINT reads as a second Ctrl+C
+      if (signal === 'SIGINT' && process.stdin.isTTY) {
+        return
+      }
+      child.kill(signal)
+    }
+    for (const signal of signals) {
+      process.on(signal, forward)
+    }
+    const resumeShutdown = shutdown.suspend()
+    const cleanup = () => {
+      for (const signal of signals) {
+        process.off(signal, forward)
+      }
+      resumeShutdown()
+    }
+
+    child.once('error', (error: NodeJS.ErrnoException) => {
+      cleanup()
+      reject(
+        error.code === 'ENOENT'
+          ? new ClappError(t('errors.commandNotFound', { command }))
+          : error,
+      )
+    })
+    child.once('exit', (code, signal) => {
+      cleanup()
+      const exitCode = code ?? 128 + (signal ? os.constants.signals[signal] : 0)
+      process.exitCode = exitCode
+      resolve(exitCode)
+    })
+  })
+}
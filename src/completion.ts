@@ -0,0 +1,233 @@
+import type CLI from './CLI'
+import type Command from './Command'
+import type Option from './Option'
+import process from 'node:process'
+import { t } from './i18n'
+import { getFileName, getOptionFlags } from './utils'
+
+type Shell = 'bash' | 'zsh' | 'fish'
+
+export const shells: Shell[] = ['bash', 'zsh', 'fish']
+
+export interface CompletionItem {
+  value: string
+  description?: string
+}
+
+export interface CompletionContext {
+  cli: CLI
+  /** The matched command, if any */
+  command?: Command
+  /** Words typed after the program name, the last one is being completed */
+  words: string[]
+  /** The (partial) word being completed */
+  current: string
+  /** The option whose value is being completed */
+  option?: Option
+  /** Index of the positional argument being completed, when no option is */
+  argIndex?: number
+}
+
+/**
+ * Supplies candidate values at runtime, e.g. branch names
+ */
+export type CompletionHandler = (
+  context: CompletionContext,
+) => Array<string | CompletionItem> | Promise<Array<string | CompletionItem>>
+
+function takesValue(option: Option): boolean {
+  return !option.isBoolean
+}
+
+function findOption(options: Option[], flag: string): Option | undefined {
+  return options.find(option => getOptionFlags(option).includes(flag))
+}
+
+/**
+ * Resolve completion candidates for the words typed after the program name
+ * @param cli CLI instance
+ * @param words Typed words, the last one is the word being completed
+ */
+export async function getCompletions(cli: CLI, words: string[]): Promise<CompletionItem[]> {
+  const current = words.length > 0 ? words[words.length - 1] : ''
+  const previous = words.length > 1 ? words[words.length - 2] : undefined
+  const allOptions = [
+    ...cli.globalCommand.options,
+    ...cli.commands.flatMap(command => command.options),
+  ]
+
+  // Positional words before the current one, skipping option values
+  const positional: string[] = []
+  const preceding = words.slice(0, -1)
+  for (let i = 0; i < preceding.length; i++) {
+    const word = preceding[i]
+    if (word.startsWith('-')) {
+      const option = word.includes('=') ? undefined : findOption(allOptions, word)
+      if (option && takesValue(option)) {
+        i++
+      }
+      continue
+    }
+    positional.push(word)
+  }
+
+  let command: Command | undefined
+  let length = 0
+  for (const candidate of cli.commands) {
+    const matched = candidate.matchArgs(positional)
+    if (matched > length) {
+      command = candidate
+      length = matched
+    }
+  }
+  if (!command) {
+    command = cli.commands.find(candidate => candidate.isDefaultCommand)
+  }
+
+  const options = [
+    ...cli.globalCommand.options,
+    ...(command ? [...command.inheritedOptions, ...command.options] : []),
+  ]
+  const context: CompletionContext = { cli, command, words, current }
+  const items: CompletionItem[] = []
+
+  const addItems = (values: Array<string | CompletionItem>) => {
+    for (const value of values) {
+      items.push(typeof value === 'string' ? { value } : value)
+    }
+  }
+
+  const previousOption = previous && previous.startsWith('-') && !previous.includes('=')
+    ? findOption(options, previous)
+    : undefined
+
+  if (previousOption && takesValue(previousOption) && !current.startsWith('-')) {
+    // Completing the value of an option
+    const { choices } = previousOption.valueSchema
+    if (choices) {
+      addItems(choices.map(choice => String(choice)))
+    }
+    if (command?.completeHandler) {
+      addItems(await command.completeHandler({ ...context, option: previousOption }))
+    }
+  }
+  else if (current.startsWith('-')) {
+    for (const option of options.filter(option => !option.config.hidden)) {
+      for (const flag of getOptionFlags(option)) {
+        items.push({ value: flag, description: option.description && t(option.description) })
+      }
+    }
+  }
+  else {
+    // Sub-commands at the current depth, which may be a group like `db`
+    // without a registered command of its own
+    const visibleCommands = cli.commands.filter(candidate => !candidate.config.hidden && candidate.name !== '')
+    let depth = length
+    for (const candidate of visibleCommands) {
+      const segments = candidate.name.split(' ')
+      let k = 0
+      while (k < segments.length - 1 && segments[k] === positional[k]) {
+        k++
+      }
+      depth = Math.max(depth, k)
+    }
+
+    const seen = new Set<string>()
+    for (const candidate of visibleCommands) {
+      const segments = candidate.name.split(' ')
+      if (
+        segments.length > depth
+        && positional.slice(0, depth).every((segment, index) => segments[index] === segment)
+      ) {
+        const isChild = segments.length === depth + 1
+        const names = isChild
+          ? [segments[depth], ...candidate.aliasNames.filter(alias => !alias.includes(' ') && alias !== '!')]
+          : [segments[depth]]
+        for (const name of names) {
+          if (!seen.has(name)) {
+            seen.add(name)
+            items.push({
+              value: name,
+              description: isChild ? candidate.description && t(candidate.description) : undefined,
+            })
+          }
+        }
+      }
+    }
+
+    // Positional argument values of the matched command
+    if (command && depth === length) {
+      const argIndex = positional.length - length
+      const arg = command.args[argIndex] || command.args.find(arg => arg.variadic)
+      if (arg?.config?.choices) {
+        addItems(arg.config.choices.map(choice => String(choice)))
+      }
+      if (command.completeHandler) {
+        addItems(await command.completeHandler({ ...context, argIndex }))
+      }
+    }
+  }
+
+  return items.filter(item => item.value.startsWith(current))
+}
+
+function getFunctionName(name: string): string {
+  return `_${name.replace(/\W/g, '_')}_completion`
+}
+
+/**
+ * Generate a shell completion script for the CLI
+ *
+ * The script calls the hidden `__complete` command registered by
+ * `cli.completion()`, which resolves candidates from the command registry.
+ * @param cli CLI instance
+ * @param shell Target shell
+ */
+export function generateCompletion(cli: CLI, shell: Shell): string {
+  const { name } = cli
+  const fn = getFunctionName(name)
+
+  switch (shell) {
+    case 'bash':
+      return [
+        `###-begin-${name}-completion-###`,
+        `${fn}() {`,
+        `  local IFS=$'\\n'`,
+        `  COMPREPLY=($(${name} __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null | cut -f1))`,
+        `}`,
+        `complete -o default -F ${fn} ${name}`,
+        `###-end-${name}-completion-###`,
+      ].join('\n')
+    case 'zsh':
+      return [
+        `#compdef ${name}`,
+        `${fn}() {`,
+        `  local -a candidates`,
+        `  local value description`,
+        `  while IFS=$'\\t' read -r value description; do`,
+        `    candidates+=("\${value//:/\\\\:}\${description:+:$description}")`,
+        `  done < <(${name} __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)`,
+        `  _describe 'values' candidates`,
+        `}`,
+        `compdef ${fn} ${name}`,
+      ].join('\n')
+    case 'fish':
+      return [
+        `function ${fn}`,
+        `  set -l tokens (commandline -opc) (commandline -ct)`,
+        `  ${name} __complete -- $tokens[2..-1] 2>/dev/null`,
+        `end`,
+        `complete -c ${name} -f -a '(${fn})'`,
+      ].join('\n')
+  }
+}
+
+/**
+ * Guess the shell from `$SHELL`, defaults to `bash`
+ */
+export function detectShell(): Shell {
+  const shell = getFileName(process.env.SHELL || '')
+  return shells.includes(shell as Shell) ? shell as Shell : 'bash'
+}
+
+export type { Shell }
@@ -0,0 +1,77 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { pathToFileURL } from 'node:url'
+import { t } from './i18n'
+import { camelcaseOptionName, ClappError } from './utils'
+
+/**
+ * Where the value of an option came from, in increasing precedence
+ */
+export type OptionSource = 'default' | 'config' | 'env' | 'argv'
+
+async function readJSON(file: string): Promise<any> {
+  let content: string
+  try {
+    content = await fs.readFile(file, 'utf8')
+  }
+  catch {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(content)
+  }
+  catch (error: any) {
+    throw new ClappError(t('errors.configParse', { file, reason: error.message }))
+  }
+}
+
+async function importModule(file: string): Promise<any> {
+  try {
+    await fs.access(file)
+  }
+  catch {
+    return undefined
+  }
+
+  const mod = await import(pathToFileURL(file).href)
+  return mod.default ?? mod
+}
+
+/**
+ * Load and merge the config files of a CLI, later files win:
+ *
+ * 1. the `name` key of `package.json`
+ * 2. `.namerc` or `.namerc.json`
+ * 3. `name.config.ts`, `name.config.js`, `name.config.mjs` or `name.config.json`
+ *
+ * Top-level keys are camelCased to match option names.
+ * @param name Config name, usually the program name
+ * @param cwd Directory to look in
+ */
+export async function loadConfig(name: string, cwd: string = process.cwd()): Promise<Record<string, any>> {
+  const layers: any[] = []
+
+  const pkg = await readJSON(path.join(cwd, 'package.json'))
+  layers.push(pkg?.[name])
+
+  for (const file of [`.${name}rc`, `.${name}rc.json`]) {
+    layers.push(await readJSON(path.join(cwd, file)))
+  }
+
+  for (const ext of ['ts', 'js', 'mjs']) {
+    layers.push(await importModule(path.join(cwd, `${name}.config.${ext}`)))
+  }
+  layers.push(await readJSON(path.join(cwd, `${name}.config.json`)))
+
+  const config: Record<string, any> = {}
+  for (const layer of layers) {
+    if (layer && typeof layer === 'object') {
+      for (const key of Object.keys(layer)) {
+        config[camelcaseOptionName(key)] = layer[key]
+      }
+    }
+  }
+  return config
+}
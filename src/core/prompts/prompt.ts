@@ -6,6 +6,7 @@ import process, { stdin, stdout } from 'node:process'
 import readline from 'node:readline'
 import { Writable } from 'node:stream'
 import wrap from 'wrap-ansi'
+import { shutdown } from '../../shutdown'
 import { cursor, erase } from '../../utils'
 import { CANCEL_SYMBOL, diffLines, isActionKey, setRawMode, settings } from '../../utils/index'
 
@@ -38,7 +39,7 @@ export default class Prompt {
   public value: any
 
   constructor(options: PromptOptions<Prompt>, trackValue = true) {
-    const { input = stdin, output = stdout, render, signal, ...opts } = options
+    const { input = stdin, output = settings.output || stdout, render, signal, ...opts } = options
 
     this.opts = opts
     this.onKeypress = this.onKeypress.bind(this)
@@ -118,6 +119,10 @@ export default class Prompt {
 
   public prompt(): Promise<string | symbol> {
     return new Promise<string | symbol>((resolve) => {
+      const onAbort = () => {
+        this.state = 'cancel'
+        this.close()
+      }
       if (this._abortSignal) {
         if (this._abortSignal.aborted) {
           this.state = 'cancel'
@@ -126,14 +131,7 @@ export default class Prompt {
           return resolve(CANCEL_SYMBOL)
         }
 
-        this._abortSignal.addEventListener(
-          'abort',
-          () => {
-            this.state = 'cancel'
-            this.close()
-          },
-          { once: true },
-        )
+        this._abortSignal.addEventListener('abort', onAbort, { once: true })
       }
 
       const sink = new Writable()
@@ -164,16 +162,22 @@ export default class Prompt {
       this.input.on('keypress', this.onKeypress)
       setRawMode(this.input, true)
       this.output.on('resize', this.render)
+      // Cancel on shutdown, so the interrupted action can finish
+      shutdown.signal.addEventListener('abort', onAbort, { once: true })
 
       this.render()
 
       this.once('submit', () => {
+        this._abortSignal?.removeEventListener('abort', onAbort)
+        shutdown.signal.removeEventListener('abort', onAbort)
         this.output.write(cursor.show)
         this.output.off('resize', this.render)
         setRawMode(this.input, false)
         resolve(this.value)
       })
       this.once('cancel', () => {
+        this._abortSignal?.removeEventListener('abort', onAbort)
+        shutdown.signal.removeEventListener('abort', onAbort)
         this.output.write(cursor.show)
         this.output.off('resize', this.render)
         setRawMode(this.input, false)
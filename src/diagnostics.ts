@@ -0,0 +1,165 @@
+import type { ArgvLocation } from './utils'
+import { t } from './i18n'
+import { style } from './style'
+import { camelcaseOptionName } from './utils'
+
+/**
+ * A parse error with the argv it was found in, see `cli.getDiagnostic()`
+ */
+export interface ParseDiagnostic {
+  message: string
+  /** Program name the command line is echoed with */
+  name: string
+  /** Parsed args, without the program and script paths */
+  argv: string[]
+  /** Index of the offending token, the length of argv when something is missing at the end */
+  index: number
+  /** Start and end offset of the offending part of the token */
+  span: [number, number]
+  /** Response file and line the offending token was read from, e.g. `build.args:3` */
+  origin?: string
+  /** How to fix the error */
+  hint?: string
+  /** Usage of the matched command, e.g. `mycli serve [options]` */
+  usage?: string
+}
+
+export interface DiagnosticRenderOptions {
+  /**
+   * Width to fit the command line in, longer lines are cut around the caret
+   * @default 80
+   */
+  columns?: number
+  /** Color the caret, hint and usage with the `style` theme */
+  color?: boolean
+}
+
+/**
+ * Find the last token passing one of the option names, e.g. `--port=80`
+ * for `port` or `-vp` for `p`, before `--`
+ * @param argv Parsed args
+ * @param names Option names, camelCased as in `cli.options`
+ */
+export function findOptionToken(argv: string[], names: string[]): ArgvLocation | undefined {
+  const end = argv.includes('--') ? argv.indexOf('--') : argv.length
+  for (let index = end - 1; index >= 0; index--) {
+    const token = argv[index]
+    if (token.startsWith('--')) {
+      const flag = token.slice(2).split('=')[0]
+      const name = camelcaseOptionName(flag).split('.')[0]
+      const negated = flag.startsWith('no-') ? camelcaseOptionName(flag.slice(3)).split('.')[0] : undefined
+      if (names.includes(name) || (negated !== undefined && names.includes(negated))) {
+        return { index, span: [0, flag.length + 2] }
+      }
+    }
+    else if (token.startsWith('-') && token.length > 1) {
+      // The last short flag of a group like `-abc` takes the value
+      for (let offset = token.length - 1; offset > 0; offset--) {
+        if (names.includes(token[offset])) {
+          return { index, span: [offset, offset + 1] }
+        }
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Find the value of an option: after `=` in its token, or the next token
+ * @param argv Parsed args
+ * @param names Option names, camelCased as in `cli.options`
+ */
+export function findOptionValueToken(argv: string[], names: string[]): ArgvLocation | undefined {
+  const location = findOptionToken(argv, names)
+  if (!location) {
+    return undefined
+  }
+
+  const token = argv[location.index]
+  const [, end] = location.span
+  if (token[end] === '=') {
+    return { index: location.index, span: [end + 1, token.length] }
+  }
+  if (end < token.length) {
+    // A value attached to a short flag, e.g. `-p80`
+    return { index: location.index, span: [end, token.length] }
+  }
+  const next = argv[location.index + 1]
+  return next !== undefined && next !== '--'
+    ? { index: location.index + 1, span: [0, next.length] }
+    : location
+}
+
+/**
+ * Quote a token like a shell would need it, e.g. `'my app'`
+ */
+function quoteToken(token: string): string {
+  return /^[\w@%+=:,./-]+$/.test(token) ? token : `'${token.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Echo the command line of a parse error with a caret under the offending token,
+ * followed by the response file the token was read from, the hint and usage, e.g.
+ *
+ * ```
+ *   $ mycli serve --port abc
+ *                        ^^^
+ *   hint: ...
+ *   usage: mycli serve [options]
+ * ```
+ */
+export function formatDiagnostic(diagnostic: ParseDiagnostic, { columns = 80, color = false }: DiagnosticRenderOptions = {}): string {
+  const { name, argv, index, span, origin, hint, usage } = diagnostic
+  const indent = '  '
+
+  let line = `$ ${name}`
+  let start = 0
+  let end = 0
+  argv.forEach((token, tokenIndex) => {
+    const quoted = quoteToken(token)
+    if (tokenIndex === index) {
+      // Quotes shift the span, point at the whole token when they are escaped inside
+      const shift = quoted === token ? 0 : quoted.length === token.length + 2 ? 1 : -1
+      start = line.length + 1 + (shift === -1 ? 0 : span[0] + shift)
+      end = shift === -1 ? start + quoted.length : line.length + 1 + span[1] + shift
+    }
+    line += ` ${quoted}`
+  })
+  if (index >= argv.length) {
+    start = line.length + 1
+  }
+  end = Math.max(end, start + 1)
+
+  // Cut long lines to show the caret
+  const width = Math.max(columns - indent.length, 20)
+  let from = 0
+  if (end > width) {
+    from = Math.min(start, end - width)
+  }
+  let text = line.slice(from, from + width)
+  if (from > 0) {
+    text = `…${text.slice(1)}`
+  }
+  if (from + width < line.length) {
+    text = `${text.slice(0, -1)}…`
+  }
+  const caret = `${' '.repeat(start - from)}${'^'.repeat(Math.max(1, Math.min(end, from + width) - start))}`
+
+  const lines = [
+    `${indent}${text}`,
+    `${indent}${color ? style.red(caret) : caret}`,
+  ]
+  if (origin) {
+    const note = t('diagnostics.origin', { origin })
+    lines.push(`${indent}${color ? style.dim(note) : note}`)
+  }
+  if (hint) {
+    const note = t('diagnostics.hint', { hint })
+    lines.push(`${indent}${color ? style.dim(note) : note}`)
+  }
+  if (usage) {
+    const note = t('diagnostics.usage', { usage })
+    lines.push(`${indent}${color ? style.dim(note) : note}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,275 @@
+import { t } from './i18n'
+import { style } from './style'
+import { padRight } from './utils'
+
+interface HelpSection {
+  title?: string
+  body: string
+}
+
+/**
+ * A command or option row in help output
+ */
+export interface HelpEntry {
+  /** e.g. `-p, --port <port>` or `deploy <env>` */
+  name: string
+  description: string
+  /** Details like choices, defaults and env variables */
+  notes: string[]
+  /** `true` or a deprecation message */
+  deprecated?: boolean | string
+}
+
+export interface HelpGroup {
+  title: string
+  entries: HelpEntry[]
+}
+
+/**
+ * Everything help output shows for a command, independent of the format
+ */
+export interface HelpModel {
+  /** Program name with version, e.g. `mycli/1.0.0` */
+  title: string
+  description?: string
+  usage: string
+  /** Args declared in the command name, listed when one has a description */
+  arguments: HelpEntry[]
+  commands: HelpGroup[]
+  /** Usages which show help for the listed commands */
+  commandHelpUsages: string[]
+  options: HelpGroup[]
+  examples: string[]
+  /** Extra sections, e.g. added by plugins */
+  sections: HelpSection[]
+}
+
+export type HelpFormat = 'text' | 'markdown' | 'json'
+
+export interface HelpModelOptions {
+  /** Include deprecated commands and options */
+  all?: boolean
+}
+
+export interface HelpRenderOptions {
+  /** Terminal width to wrap descriptions at */
+  columns?: number
+  /** Color titles, names and notes with the `style` theme */
+  color?: boolean
+}
+
+/**
+ * Group entries by category, uncategorized entries come first under `title`
+ */
+export function groupHelpEntries<T>(
+  title: string,
+  items: T[],
+  getCategory: (item: T) => string | undefined,
+  toEntry: (item: T) => HelpEntry,
+): HelpGroup[] {
+  const groups = new Map<string, HelpEntry[]>([[title, []]])
+  for (const item of items) {
+    const category = getCategory(item) || title
+    groups.set(category, [...(groups.get(category) || []), toEntry(item)])
+  }
+  return [...groups.entries()]
+    .filter(([, entries]) => entries.length > 0)
+    .map(([title, entries]) => ({ title, entries }))
+}
+
+/**
+ * Wrap text to a width, breaking at spaces
+ */
+export function wrapText(text: string, width: number): string[] {
+  if (width <= 0 || text.length <= width) {
+    return [text]
+  }
+
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line)
+      line = word
+    }
+    else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  lines.push(line)
+  return lines
+}
+
+function describeDeprecation(deprecated: boolean | string): string {
+  return typeof deprecated === 'string' ? t('help.deprecatedReason', { reason: t(deprecated) }) : t('help.deprecated')
+}
+
+function renderEntries(entries: HelpEntry[], { columns = 80, color = false }: HelpRenderOptions): string {
+  const indent = 2
+  const nameWidth = Math.max(...entries.map(entry => entry.name.length))
+  const descriptionColumn = indent + nameWidth + 2
+  // Wrapping a narrow column is harder to read than overflowing
+  const width = columns - descriptionColumn >= 20 ? columns - descriptionColumn : 0
+
+  return entries
+    .map((entry) => {
+      const notes = [
+        ...entry.notes,
+        ...(entry.deprecated ? [describeDeprecation(entry.deprecated)] : []),
+      ].join(' ')
+      const text = [entry.description, notes].filter(Boolean).join(' ')
+      const lines = wrapText(text, width)
+
+      // Color after wrapping, so escape codes don't count towards the width
+      const notesStart = text.length - notes.length
+      const colorLine = (line: string, index: number) => {
+        if (!color || !notes) {
+          return line
+        }
+        const offset = lines.slice(0, index).reduce((length, l) => length + l.length + 1, 0)
+        const split = Math.max(0, Math.min(line.length, notesStart - offset))
+        return line.slice(0, split) + (split < line.length ? style.muted(line.slice(split)) : '')
+      }
+
+      const name = padRight(entry.name, nameWidth)
+      return lines
+        .map((line, index) => {
+          const prefix = index === 0
+            ? `${' '.repeat(indent)}${color ? (entry.deprecated ? style.muted(name) : style.secondary(name)) : name}  `
+            : ' '.repeat(descriptionColumn)
+          return `${prefix}${colorLine(line, index)}`.trimEnd()
+        })
+        .join('\n')
+    })
+    .join('\n')
+}
+
+/**
+ * Render help as titled text sections
+ *
+ * Titles are plain text, `joinHelpSections()` styles them.
+ */
+export function renderHelpSections(model: HelpModel, options: HelpRenderOptions = {}): HelpSection[] {
+  const sections: HelpSection[] = [{ body: model.title }]
+
+  if (model.description) {
+    sections.push({ body: model.description })
+  }
+
+  sections.push({
+    title: t('help.usage'),
+    body: `  $ ${model.usage}`,
+  })
+
+  if (model.arguments.length > 0) {
+    sections.push({
+      title: t('help.arguments'),
+      body: renderEntries(model.arguments, options),
+    })
+  }
+
+  for (const group of model.commands) {
+    sections.push({
+      title: group.title,
+      body: renderEntries(group.entries, options),
+    })
+  }
+
+  if (model.commandHelpUsages.length > 0) {
+    sections.push({
+      title: t('help.moreInfo'),
+      body: model.commandHelpUsages.map(usage => `  $ ${usage}`).join('\n'),
+    })
+  }
+
+  for (const group of model.options) {
+    sections.push({
+      title: group.title,
+      body: renderEntries(group.entries, options),
+    })
+  }
+
+  if (model.examples.length > 0) {
+    sections.push({
+      title: t('help.examples'),
+      body: model.examples.join('\n'),
+    })
+  }
+
+  sections.push(...model.sections)
+
+  return sections
+}
+
+/**
+ * Join help sections into the printed text, with bold titles when `color` is set
+ */
+export function joinHelpSections(sections: HelpSection[], { color = false }: HelpRenderOptions = {}): string {
+  return sections
+    .map((section) => {
+      return section.title
+        ? `${color ? style.bold(section.title) : section.title}:\n${section.body}`
+        : section.body
+    })
+    .join('\n\n')
+}
+
+function renderMarkdownEntries(entries: HelpEntry[]): string {
+  return entries
+    .map((entry) => {
+      const notes = [
+        ...entry.notes,
+        ...(entry.deprecated ? [describeDeprecation(entry.deprecated)] : []),
+      ]
+      const description = [entry.description, ...notes].filter(Boolean).join(' ')
+      return `- \`${entry.name}\`${description ? ` - ${description}` : ''}`
+    })
+    .join('\n')
+}
+
+/**
+ * Render help as Markdown
+ */
+export function renderHelpMarkdown(model: HelpModel): string {
+  const blocks: string[] = [`# ${model.title}`]
+
+  if (model.description) {
+    blocks.push(model.description)
+  }
+
+  blocks.push(`## ${t('help.usage')}`, `\`\`\`sh\n$ ${model.usage}\n\`\`\``)
+
+  if (model.arguments.length > 0) {
+    blocks.push(`## ${t('help.arguments')}`, renderMarkdownEntries(model.arguments))
+  }
+
+  for (const group of [...model.commands, ...model.options]) {
+    blocks.push(`## ${group.title}`, renderMarkdownEntries(group.entries))
+  }
+
+  if (model.examples.length > 0) {
+    blocks.push(`## ${t('help.examples')}`, `\`\`\`sh\n${model.examples.join('\n')}\n\`\`\``)
+  }
+
+  for (const section of model.sections) {
+    blocks.push(...(section.title ? [`## ${section.title}`] : []), section.body)
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
+
+/**
+ * Render help in the given format
+ */
+export function renderHelp(model: HelpModel, format: HelpFormat = 'text', options: HelpRenderOptions = {}): string {
+  switch (format) {
+    case 'markdown':
+      return renderHelpMarkdown(model)
+    case 'json':
+      return JSON.stringify(model, null, 2)
+    default:
+      return joinHelpSections(renderHelpSections(model, options))
+  }
+}
+
+export type { HelpSection }
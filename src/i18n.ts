@@ -0,0 +1,111 @@
+import process from 'node:process'
+import { de } from './locales/de'
+import { en } from './locales/en'
+import { ja } from './locales/ja'
+
+/**
+ * A message with `{name}` placeholders, or its plural forms picked by the `count` param
+ */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>)
+
+/**
+ * Messages of a locale by key, e.g. `help.usage`
+ */
+export type Messages = Record<string, Message>
+
+const catalogs = new Map<string, Messages>([
+  ['en', { ...en }],
+  ['de', { ...de }],
+  ['ja', { ...ja }],
+])
+
+let localeOverride: string | undefined
+
+/**
+ * Turn a POSIX locale like `de_DE.UTF-8` into a language tag like `de-DE`
+ */
+function normalizeLocale(locale: string): string | undefined {
+  const tag = locale.split(/[.@]/)[0].replace(/_/g, '-')
+  return tag === '' || tag === 'C' || tag === 'POSIX' ? undefined : tag
+}
+
+/**
+ * Use a locale instead of the one from the environment, `undefined` to go back to it
+ * @param locale Language tag, e.g. `de` or `ja-JP`
+ */
+export function setLocale(locale: string | undefined): void {
+  localeOverride = locale
+}
+
+/**
+ * Get the locale set with `setLocale()`, or read from `LC_ALL`, `LC_MESSAGES` or `LANG`
+ * @returns A language tag, `en` when none is set
+ */
+export function getLocale(): string {
+  const { LC_ALL, LC_MESSAGES, LANG } = process.env
+  for (const locale of [localeOverride, LC_ALL, LC_MESSAGES, LANG]) {
+    const tag = locale && normalizeLocale(locale)
+    if (tag) {
+      return tag
+    }
+  }
+  return 'en'
+}
+
+/**
+ * Add messages to the catalog of a locale, replacing messages with the same key
+ *
+ * Descriptions of commands, options and args are looked up by their text, so
+ * `addMessages('de', { 'Build the project': 'Projekt bauen' })` translates help output.
+ * @param locale Language tag, e.g. `de` or `de-AT`
+ * @param messages Messages by key
+ */
+export function addMessages(locale: string, messages: Messages): void {
+  catalogs.set(locale, { ...catalogs.get(locale), ...messages })
+}
+
+/**
+ * Locales to look a message up in, most specific first, e.g. `de-AT`, `de`, `en`
+ */
+function getLocaleChain(locale: string): string[] {
+  const chain: string[] = []
+  const parts = locale.split('-')
+  for (let length = parts.length; length > 0; length--) {
+    chain.push(parts.slice(0, length).join('-'))
+  }
+  return [...new Set([...chain, 'en'])]
+}
+
+/**
+ * Translate a message into the current locale
+ *
+ * `{name}` placeholders are replaced by params, and plural messages pick their form
+ * by the `count` param. A key without a message is returned as it is, so descriptions can be passed as keys.
+ * @param key Message key, e.g. `help.usage`, or text to translate
+ * @param params Values of the placeholders
+ */
+export function t(key: string, params: Record<string, unknown> = {}): string {
+  for (const locale of getLocaleChain(getLocale())) {
+    const message = catalogs.get(locale)?.[key]
+    if (message === undefined) {
+      continue
+    }
+
+    let text: string
+    if (typeof message === 'string') {
+      text = message
+    }
+    else {
+      let rule: Intl.LDMLPluralRule = 'other'
+      try {
+        rule = new Intl.PluralRules(locale).select(Number(params.count))
+      }
+      catch {}
+      text = message[rule] ?? message.other
+    }
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      return Object.hasOwn(params, name) ? String(params[name]) : placeholder
+    })
+  }
+  return key
+}
@@ -1,10 +1,26 @@
 import { cli } from './CLI'
 
+export * from './child-process'
 export * from './CLI'
 export * from './Command'
+export * from './completion'
+export * from './config'
+export * from './diagnostics'
+export * from './help'
+export * from './i18n'
+export * from './infer'
+export * from './interactive'
+export * from './middleware'
 export * from './Option'
+export * from './output'
+export * from './plugin'
 
 export * from './prompts'
+export * from './reference'
+export * from './response-files'
+export * from './router'
+export * from './shell'
+export * from './shutdown'
 export * from './style'
 export * from './testing'
 export * from './types'
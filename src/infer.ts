@@ -0,0 +1,161 @@
+import type { OptionConfig } from './Option'
+
+/**
+ * Split a string at spaces, e.g. `'deploy <env>'` into `['deploy', '<env>']`
+ */
+type Words<S extends string> = S extends `${infer Head} ${infer Tail}`
+  ? [...(Head extends '' ? [] : [Head]), ...Words<Tail>]
+  : S extends '' ? [] : [S]
+
+type ArgValue<Word extends string> = Word extends `<...${string}>` | `[...${string}]`
+  ? [string[]]
+  : Word extends `<${string}>`
+    ? [string]
+    : Word extends `[${string}]`
+      ? [string | undefined]
+      : []
+
+type ArgValues<W extends string[]> = W extends [infer Head extends string, ...infer Tail extends string[]]
+  ? [...ArgValue<Head>, ...ArgValues<Tail>]
+  : []
+
+/**
+ * The action args declared by a command name,
+ * e.g. `[string, string[]]` for `'deploy <env> [...targets]'`
+ */
+export type InferArgs<RawName extends string> = string extends RawName
+  ? any[]
+  : ArgValues<Words<RawName>>
+
+type ArgWords<W extends string[]> = W extends [infer Head extends string, ...infer Tail extends string[]]
+  ? Head extends `<${string}>` | `[${string}]` ? [Head, ...ArgWords<Tail>] : ArgWords<Tail>
+  : []
+
+type TrimDots<S extends string> = S extends `...${infer Rest}` ? Rest : S
+
+/**
+ * The name of an arg like `argument()` takes it, e.g. `files` for `<...files>`
+ */
+type ArgName<Word extends string> = Word extends `<${infer Inner}>`
+  ? TrimDots<Inner>
+  : Word extends `[${infer Inner}]`
+    ? TrimDots<Inner>
+    : TrimDots<Word>
+
+type ArgIndex<W extends string[], Name extends string, Seen extends unknown[] = []> = W extends [infer Head extends string, ...infer Tail extends string[]]
+  ? ArgName<Head> extends Name ? Seen['length'] : ArgIndex<Tail, Name, [...Seen, unknown]>
+  : never
+
+type ReplaceAt<T extends any[], Index extends number, Value, Seen extends unknown[] = []> = T extends [infer Head, ...infer Tail]
+  ? Seen['length'] extends Index ? [Value, ...Tail] : [Head, ...ReplaceAt<Tail, Index, Value, [...Seen, unknown]>]
+  : T
+
+type ArgumentValue<Word extends string, Config> = Word extends `<...${string}>` | `[...${string}]`
+  ? SchemaValue<Config, string>[]
+  : Word extends `<${string}>`
+    ? SchemaValue<Config, string>
+    : Config extends { default: any }
+      ? SchemaValue<Config, string>
+      : SchemaValue<Config, string> | undefined
+
+/**
+ * The action args after describing one with `argument()`, typing it by its config,
+ * e.g. `[number]` for `'scale <replicas>'` and `argument('replicas', '', { type: 'integer' })`
+ */
+export type InferArgument<RawName extends string, Args extends any[], Name extends string, Config> = string extends RawName
+  ? Args
+  : ArgWords<Words<RawName>> extends infer W extends string[]
+    ? ArgIndex<W, ArgName<Name>> extends infer Index extends number
+      ? ReplaceAt<Args, Index, ArgumentValue<W[Index], Config>>
+      : Args
+    : Args
+
+/**
+ * Camelcase like `camelcaseOptionName`, e.g. `dryRun` for `dry-run`
+ */
+export type CamelCase<S extends string> = S extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S
+
+type Flags<W extends string[]> = W extends [infer Head extends string, ...infer Tail extends string[]]
+  ? Head extends `-${string}`
+    ? [Head extends `${infer Flag},` ? Flag : Head, ...Flags<Tail>]
+    : Flags<Tail>
+  : []
+
+type Last<T extends string[]> = T extends [...string[], infer L extends string] ? L : never
+
+type FlagName<Flag extends string> = Flag extends `--no-${infer Name}`
+  ? Name
+  : Flag extends `--${infer Name}`
+    ? Name
+    : Flag extends `-${infer Name}`
+      ? Name
+      : Flag
+
+type ValueTypeOf<Type> = Type extends NumberConstructor | 'number' | 'integer'
+  ? number
+  : Type extends BooleanConstructor | 'boolean'
+    ? boolean
+    : Type extends StringConstructor | 'string'
+      ? string
+      : Type extends readonly [(value: any) => infer Item]
+        ? Item[]
+        : never
+
+/**
+ * The value of a value schema, `Fallback` when it has no parser, choices or type
+ */
+type SchemaValue<Config, Fallback> = Config extends { parse: (value: any) => infer Parsed }
+  ? Parsed
+  : Config extends { choices: readonly (infer Choice)[] }
+    ? Choice
+    : Config extends { type: infer Type }
+      ? ValueTypeOf<Type>
+      : Fallback
+
+type OptionValue<RawName extends string, Config> = SchemaValue<
+  Config,
+  RawName extends `${string}<${string}>${string}`
+    ? string
+    : RawName extends `${string}[${string}]${string}`
+      ? string | boolean
+      : boolean
+>
+
+type ShapedValue<RawName extends string, Config> = Config extends { shape: 'count' }
+  ? number
+  : Config extends { shape: 'array' }
+    ? OptionValue<RawName, Config>[]
+    : Config extends { shape: 'map' }
+      ? Record<string, OptionValue<RawName, Config>>
+      : OptionValue<RawName, Config>
+
+type OptionKey<Name extends string> = Name extends `${infer Base}.${string}` ? CamelCase<Base> : CamelCase<Name>
+
+/**
+ * The parsed options added by an option declaration,
+ * e.g. `{ port?: number }` for `'-p, --port <port>'` with `{ type: Number }`
+ *
+ * Options with a default value, counted and negated ones are always set.
+ */
+export type InferOption<RawName extends string, Config extends OptionConfig = object> = string extends RawName
+  ? object
+  : Last<Flags<Words<RawName>>> extends infer Flag extends string
+    ? FlagName<Flag> extends `${string}.${string}`
+      ? { [K in OptionKey<FlagName<Flag>>]?: Record<string, any> }
+      : Config extends { default: any } | { shape: 'count' } | (Flag extends `--no-${string}` ? unknown : never)
+        ? { [K in OptionKey<FlagName<Flag>>]: ShapedValue<RawName, Config> }
+        : { [K in OptionKey<FlagName<Flag>>]?: ShapedValue<RawName, Config> }
+    : object
+
+/**
+ * Parsed options before any are declared, unknown keys stay accessible
+ */
+export interface ParsedOptions {
+  /** Args after `--` */
+  '--'?: string[]
+  /** Positional args after the declared ones, see `allowExcessArgs()` */
+  '_'?: string[]
+  [k: string]: any
+}
@@ -0,0 +1,100 @@
+import type { Readable, Writable } from 'node:stream'
+import type CLI from './CLI'
+import type { ValueSchema } from './utils'
+import process from 'node:process'
+import { t } from './i18n'
+import { confirm, password, select, text } from './prompts'
+import { ClappError, coerceValue, getValueTypeName, hasValueSchema, shapeOptionValue } from './utils'
+import { isCancel } from './utils/index'
+
+interface ValuePrompt {
+  message: string
+  schema: ValueSchema
+  /** Mask the input */
+  secret?: boolean
+  input?: Readable
+  output?: Writable
+}
+
+/**
+ * Ask for a value with the prompt matching its declaration:
+ * `select` for choices, `confirm` for booleans, `password` for secrets and `text` otherwise
+ */
+async function promptValue({ message, schema, secret, input, output }: ValuePrompt): Promise<any> {
+  let answer: unknown
+  if (schema.choices) {
+    answer = await select({
+      message,
+      options: schema.choices.map(value => ({ value, label: String(value) })),
+      input,
+      output,
+    })
+  }
+  else if (schema.type !== undefined && getValueTypeName(schema.type) === 'boolean') {
+    answer = await confirm({ message, input, output })
+  }
+  else if (secret) {
+    answer = await password({ message, input, output })
+  }
+  else {
+    answer = await text({ message, input, output })
+  }
+
+  if (isCancel(answer)) {
+    throw new ClappError(t('errors.cancelled'))
+  }
+  return answer
+}
+
+/**
+ * Whether missing args and option values of a CLI should be prompted for
+ */
+export function canPrompt(cli: CLI): boolean {
+  const input = cli.config.promptInput || process.stdin
+  return !!cli.config.interactive && !!(input as { isTTY?: boolean }).isTTY
+}
+
+/**
+ * Prompt for the required args and option values missing from the matched command,
+ * and merge the answers into `cli.args` and `cli.options`
+ */
+export async function promptMissingValues(cli: CLI): Promise<void> {
+  const command = cli.matchedCommand
+  if (!command || !command.isRunnable) {
+    return
+  }
+
+  const { promptInput: input, promptOutput: output } = cli.config
+
+  for (const arg of command.getMissingArgs()) {
+    const answer = await promptValue({
+      message: arg.description ? t(arg.description) : arg.value,
+      schema: arg.config || {},
+      input,
+      output,
+    })
+    // Answers are coerced with the other args before the action runs
+    cli.args = [...cli.args, answer]
+  }
+
+  for (const option of command.getMissingOptionValues()) {
+    const schema = option.valueSchema
+    const answer = await promptValue({
+      message: option.description ? t(option.description) : option.flag,
+      schema,
+      secret: option.config.secret,
+      input,
+      output,
+    })
+    const label = t('labels.option', { name: option.rawName })
+    const { shape } = option.config
+    const value = shape === 'map'
+      ? shapeOptionValue(answer, shape, label)
+      : shape === 'array'
+        ? [hasValueSchema(schema) ? coerceValue(answer, schema, label) : answer]
+        : hasValueSchema(schema) ? coerceValue(answer, schema, label) : answer
+    for (const name of option.names) {
+      cli.options[name] = value
+    }
+  }
+}
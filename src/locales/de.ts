@@ -0,0 +1,121 @@
+import type { Messages } from '../i18n'
+
+export const de: Messages = {
+  // Help output
+  'help.usage': 'Verwendung',
+  'help.arguments': 'Argumente',
+  'help.commands': 'Befehle',
+  'help.options': 'Optionen',
+  'help.examples': 'Beispiele',
+  'help.moreInfo': 'Für mehr Informationen einen Befehl mit `--help` ausführen',
+  'help.runForUsage': '`{command} --help` zeigt die Verwendung.',
+  'help.deprecated': '(veraltet)',
+  'help.deprecatedReason': '(veraltet: {reason})',
+  'help.default': '(Standard: {value})',
+  'help.repeatable': '(wiederholbar)',
+  'help.counted': '(wiederholbar, gezählt)',
+  'help.keyValue': '(wiederholbar, Schlüssel=Wert)',
+  'help.choices': 'Auswahl: {choices}',
+  'help.range': 'Bereich: {min}..{max}',
+  'help.min': 'min.: {min}',
+  'help.max': 'max.: {max}',
+  'help.env': '[Umgebung: {name}]',
+  'help.conflicts': '(nicht mit {flags})',
+  'help.requires': '(erfordert {flags})',
+  'help.implies': '(setzt {flags})',
+  'help.exactlyOne': '(nicht mit {flags}, eine ist erforderlich)',
+  'help.atLeastOne': '(oder {flags} ist erforderlich)',
+
+  // Command references
+  'reference.userCommands': 'Benutzerbefehle',
+  'reference.name': 'Name',
+  'reference.synopsis': 'Übersicht',
+  'reference.globalOptions': 'Globale Optionen',
+  'reference.aliases': 'Aliasse',
+  'reference.option': 'Option',
+  'reference.argument': 'Argument',
+  'reference.description': 'Beschreibung',
+  'reference.default': 'Standard',
+  'reference.required': 'Erforderlich',
+  'reference.requiredNote': '(erforderlich)',
+  'reference.yes': 'Ja',
+  'reference.no': 'Nein',
+
+  // Parse errors
+  'errors.argumentNotDeclared': 'Argument `{name}` ist im Befehl `{command}` nicht deklariert',
+  'errors.requiredArgumentDefault': 'erforderliches Argument `{name}` kann im Befehl `{command}` keinen Standardwert haben',
+  'errors.noActionExport': 'Modul des Befehls `{command}` exportiert keine Aktion',
+  'errors.missingArgs': 'erforderliche Argumente für Befehl `{command}` fehlen',
+  'errors.tooManyArgs': 'zu viele Argumente für Befehl `{command}`, erwartet {expected}, erhalten `{received}`',
+  'errors.expectedNoArgs': 'keine Argumente',
+  'errors.expectedAtMost': { one: 'höchstens {count} Argument', other: 'höchstens {count} Argumente' },
+  'errors.unknownOption': 'Unbekannte Option `{name}`',
+  'errors.unknownCommand': 'Unbekannter Befehl `{name}`',
+  'errors.didYouMean': { one: 'Meinten Sie {suggestions}?', other: 'Meinten Sie eines von {suggestions}?' },
+  'errors.optionValueMissing': 'Wert der Option `{name}` fehlt',
+  'errors.optionConflict': 'Option `{name}` kann nicht mit `{other}` verwendet werden',
+  'errors.optionRequires': 'Option `{name}` erfordert `{other}`',
+  'errors.optionGroupRequired': 'eine von {flags} ist erforderlich',
+  'errors.valueMissing': 'Wert von {label} fehlt',
+  'errors.notKeyValue': '{label} muss ein Schlüssel=Wert-Paar sein, erhalten `{value}`',
+  'errors.notNumber': '{label} muss eine Zahl sein, erhalten `{value}`',
+  'errors.notInteger': '{label} muss eine ganze Zahl sein, erhalten `{value}`',
+  'errors.notBoolean': '{label} muss ein Wahrheitswert sein, erhalten `{value}`',
+  'errors.invalid': '{label} ist ungültig: {reason}',
+  'errors.notChoice': '{label} muss eines von {choices} sein, erhalten `{value}`',
+  'errors.belowMin': '{label} muss mindestens {min} sein, erhalten `{value}`',
+  'errors.aboveMax': '{label} darf höchstens {max} sein, erhalten `{value}`',
+  'errors.cancelled': 'abgebrochen',
+  'errors.commandNotFound': 'Befehl `{command}` nicht gefunden',
+  'errors.configParse': 'Konfigurationsdatei `{file}` kann nicht gelesen werden: {reason}',
+  'errors.unterminatedQuote': 'nicht geschlossenes Anführungszeichen in Antwortdatei `{location}`',
+  'errors.responseFileAt': ' in `{location}`',
+  'errors.responseFileLoop': 'Antwortdateien binden sich gegenseitig ein{at}: {files}',
+  'errors.responseFilesTooDeep': 'Antwortdateien sind mehr als {depth} Ebenen tief verschachtelt{at}',
+  'errors.responseFileRead': 'Antwortdatei `{file}` kann nicht gelesen werden{at}: {reason}',
+  'errors.invalidArgument': 'ungültiges Argument `{name}` in Befehl `{command}`',
+  'errors.requiredAfterOptional': 'erforderliches Argument `{name}` darf in Befehl `{command}` nicht auf das optionale Argument `{optional}` folgen',
+  'errors.variadicNotLast': 'variadisches Argument `{name}` muss das letzte Argument in Befehl `{command}` sein',
+  'errors.pluginInstalled': 'Plugin `{name}` ist bereits installiert',
+  'errors.pluginCommandExists': 'Plugin `{name}` kann Befehl `{command}` nicht hinzufügen, er existiert bereits',
+  'errors.notAPlugin': 'Paket `{package}` exportiert kein Plugin',
+  'errors.commandsDirRead': 'Befehlsverzeichnis `{dir}` kann nicht gelesen werden: {reason}',
+  'errors.nextCalledTwice': '`next()` wurde in der Middleware mehrfach aufgerufen',
+  'labels.option': 'Option `{name}`',
+  'labels.argument': 'Argument `{name}`',
+
+  // Hints under parse errors
+  'hints.passArgs': '{args} angeben',
+  'hints.quoteArgs': 'ein Argument mit Leerzeichen in Anführungszeichen setzen, um es als ein Argument zu übergeben',
+  'hints.doubleDash': '`--` vor Argumente setzen, die mit `-` beginnen, um sie als Argumente zu übergeben',
+  'hints.passValue': 'einen Wert angeben, z. B. `{flag} {value}`',
+  'diagnostics.origin': 'aus: {origin}',
+  'diagnostics.hint': 'Hinweis: {hint}',
+  'diagnostics.usage': 'Verwendung: {usage}',
+
+  // Prefixes of printed errors and warnings
+  'prefix.error': 'Fehler',
+  'prefix.warning': 'Warnung',
+
+  // Deprecation warnings
+  'deprecation.command': 'Befehl `{name}` ist veraltet',
+  'deprecation.option': 'Option `{name}` ist veraltet',
+  'deprecation.removeIn': ' und wird in {version} entfernt',
+  'deprecation.replacement': ', stattdessen `{replacement}` verwenden',
+  'deprecation.reason': ': {reason}',
+
+  // Prompts
+  'prompts.yes': 'Ja',
+  'prompts.no': 'Nein',
+  'prompts.selectAtLeastOne': 'Bitte mindestens eine Option auswählen.',
+  'prompts.selectKeys': '{space} zum Auswählen, {enter} zum Bestätigen',
+  'prompts.cancel': 'Abgebrochen',
+  'prompts.error': 'Etwas ist schiefgelaufen',
+  'shutdown.stopping': 'Wird beendet, erneut Strg+C drücken, um sofort zu beenden',
+
+  // Built-in options and commands
+  'Display this message': 'Diese Hilfe anzeigen',
+  'Display version number': 'Versionsnummer anzeigen',
+  'Output format': 'Ausgabeformat',
+  'Output a shell completion script': 'Skript für die Shell-Vervollständigung ausgeben',
+}
@@ -0,0 +1,115 @@
+import type { Messages } from '../i18n'
+
+export const en: Messages = {
+  // Help output
+  'help.usage': 'Usage',
+  'help.arguments': 'Arguments',
+  'help.commands': 'Commands',
+  'help.options': 'Options',
+  'help.examples': 'Examples',
+  'help.moreInfo': 'For more info, run any command with the `--help` flag',
+  'help.runForUsage': 'Run `{command} --help` for usage.',
+  'help.deprecated': '(deprecated)',
+  'help.deprecatedReason': '(deprecated: {reason})',
+  'help.default': '(default: {value})',
+  'help.repeatable': '(repeatable)',
+  'help.counted': '(repeatable, counted)',
+  'help.keyValue': '(repeatable, key=value)',
+  'help.choices': 'choices: {choices}',
+  'help.range': 'range: {min}..{max}',
+  'help.min': 'min: {min}',
+  'help.max': 'max: {max}',
+  'help.env': '[env: {name}]',
+  'help.conflicts': '(conflicts with {flags})',
+  'help.requires': '(requires {flags})',
+  'help.implies': '(implies {flags})',
+  'help.exactlyOne': '(cannot be used with {flags}, one is required)',
+  'help.atLeastOne': '(or {flags} is required)',
+
+  // Command references
+  'reference.userCommands': 'User Commands',
+  'reference.name': 'Name',
+  'reference.synopsis': 'Synopsis',
+  'reference.globalOptions': 'Global Options',
+  'reference.aliases': 'Aliases',
+  'reference.option': 'Option',
+  'reference.argument': 'Argument',
+  'reference.description': 'Description',
+  'reference.default': 'Default',
+  'reference.required': 'Required',
+  'reference.requiredNote': '(required)',
+  'reference.yes': 'Yes',
+  'reference.no': 'No',
+
+  // Parse errors
+  'errors.argumentNotDeclared': 'argument `{name}` is not declared in command `{command}`',
+  'errors.requiredArgumentDefault': 'required argument `{name}` cannot have a default value in command `{command}`',
+  'errors.noActionExport': 'module of command `{command}` does not export an action',
+  'errors.missingArgs': 'missing required args for command `{command}`',
+  'errors.tooManyArgs': 'too many args for command `{command}`, expected {expected}, received `{received}`',
+  'errors.expectedNoArgs': 'no args',
+  'errors.expectedAtMost': { one: 'at most {count} arg', other: 'at most {count} args' },
+  'errors.unknownOption': 'Unknown option `{name}`',
+  'errors.unknownCommand': 'Unknown command `{name}`',
+  'errors.didYouMean': { one: 'Did you mean {suggestions}?', other: 'Did you mean one of {suggestions}?' },
+  'errors.optionValueMissing': 'option `{name}` value is missing',
+  'errors.optionConflict': 'option `{name}` cannot be used with `{other}`',
+  'errors.optionRequires': 'option `{name}` requires `{other}`',
+  'errors.optionGroupRequired': 'one of {flags} is required',
+  'errors.valueMissing': '{label} value is missing',
+  'errors.notKeyValue': '{label} must be a key=value pair, received `{value}`',
+  'errors.notNumber': '{label} must be a number, received `{value}`',
+  'errors.notInteger': '{label} must be an integer, received `{value}`',
+  'errors.notBoolean': '{label} must be a boolean, received `{value}`',
+  'errors.invalid': '{label} is invalid: {reason}',
+  'errors.notChoice': '{label} must be one of {choices}, received `{value}`',
+  'errors.belowMin': '{label} must be at least {min}, received `{value}`',
+  'errors.aboveMax': '{label} must be at most {max}, received `{value}`',
+  'errors.cancelled': 'cancelled',
+  'errors.commandNotFound': 'command `{command}` not found',
+  'errors.configParse': 'failed to parse config file `{file}`: {reason}',
+  'errors.unterminatedQuote': 'unterminated quote in response file `{location}`',
+  'errors.responseFileAt': ' at `{location}`',
+  'errors.responseFileLoop': 'response files include each other{at}: {files}',
+  'errors.responseFilesTooDeep': 'response files are nested more than {depth} levels deep{at}',
+  'errors.responseFileRead': 'cannot read response file `{file}`{at}: {reason}',
+  'errors.invalidArgument': 'invalid argument `{name}` in command `{command}`',
+  'errors.requiredAfterOptional': 'required argument `{name}` cannot follow optional argument `{optional}` in command `{command}`',
+  'errors.variadicNotLast': 'variadic argument `{name}` must be the last argument in command `{command}`',
+  'errors.pluginInstalled': 'plugin `{name}` is already installed',
+  'errors.pluginCommandExists': 'plugin `{name}` cannot add command `{command}`, it already exists',
+  'errors.notAPlugin': 'package `{package}` does not export a plugin',
+  'errors.commandsDirRead': 'cannot read commands directory `{dir}`: {reason}',
+  'errors.nextCalledTwice': '`next()` called multiple times in middleware',
+  'labels.option': 'option `{name}`',
+  'labels.argument': 'argument `{name}`',
+
+  // Hints under parse errors
+  'hints.passArgs': 'pass {args}',
+  'hints.quoteArgs': 'quote an arg containing spaces to pass it as one arg',
+  'hints.doubleDash': 'pass `--` before args starting with `-` to use them as args',
+  'hints.passValue': 'pass a value, e.g. `{flag} {value}`',
+  'diagnostics.origin': 'from: {origin}',
+  'diagnostics.hint': 'hint: {hint}',
+  'diagnostics.usage': 'usage: {usage}',
+
+  // Prefixes of printed errors and warnings
+  'prefix.error': 'error',
+  'prefix.warning': 'warning',
+
+  // Deprecation warnings
+  'deprecation.command': 'command `{name}` is deprecated',
+  'deprecation.option': 'option `{name}` is deprecated',
+  'deprecation.removeIn': ' and will be removed in {version}',
+  'deprecation.replacement': ', use `{replacement}` instead',
+  'deprecation.reason': ': {reason}',
+
+  // Prompts
+  'prompts.yes': 'Yes',
+  'prompts.no': 'No',
+  'prompts.selectAtLeastOne': 'Please select at least one option.',
+  'prompts.selectKeys': 'Press {space} to select, {enter} to submit',
+  'prompts.cancel': 'Canceled',
+  'prompts.error': 'Something went wrong',
+  'shutdown.stopping': 'Stopping, press Ctrl+C again to exit immediately',
+}
@@ -0,0 +1,121 @@
+import type { Messages } from '../i18n'
+
+export const ja: Messages = {
+  // Help output
+  'help.usage': '使い方',
+  'help.arguments': '引数',
+  'help.commands': 'コマンド',
+  'help.options': 'オプション',
+  'help.examples': '例',
+  'help.moreInfo': '詳しくは各コマンドを `--help` フラグ付きで実行してください',
+  'help.runForUsage': '使い方は `{command} --help` で確認できます。',
+  'help.deprecated': '(非推奨)',
+  'help.deprecatedReason': '(非推奨: {reason})',
+  'help.default': '(デフォルト: {value})',
+  'help.repeatable': '(複数指定可)',
+  'help.counted': '(複数指定可、回数を数える)',
+  'help.keyValue': '(複数指定可、key=value)',
+  'help.choices': '選択肢: {choices}',
+  'help.range': '範囲: {min}..{max}',
+  'help.min': '最小: {min}',
+  'help.max': '最大: {max}',
+  'help.env': '[環境変数: {name}]',
+  'help.conflicts': '({flags} と同時に使用不可)',
+  'help.requires': '({flags} が必要)',
+  'help.implies': '({flags} を設定)',
+  'help.exactlyOne': '({flags} と同時に使用不可、いずれか一つが必須)',
+  'help.atLeastOne': '(または {flags} が必須)',
+
+  // Command references
+  'reference.userCommands': 'ユーザーコマンド',
+  'reference.name': '名前',
+  'reference.synopsis': '書式',
+  'reference.globalOptions': 'グローバルオプション',
+  'reference.aliases': 'エイリアス',
+  'reference.option': 'オプション',
+  'reference.argument': '引数',
+  'reference.description': '説明',
+  'reference.default': 'デフォルト',
+  'reference.required': '必須',
+  'reference.requiredNote': '(必須)',
+  'reference.yes': 'はい',
+  'reference.no': 'いいえ',
+
+  // Parse errors
+  'errors.argumentNotDeclared': '引数 `{name}` はコマンド `{command}` で宣言されていません',
+  'errors.requiredArgumentDefault': '必須の引数 `{name}` にはコマンド `{command}` でデフォルト値を設定できません',
+  'errors.noActionExport': 'コマンド `{command}` のモジュールがアクションをエクスポートしていません',
+  'errors.missingArgs': 'コマンド `{command}` の必須の引数がありません',
+  'errors.tooManyArgs': 'コマンド `{command}` の引数が多すぎます。期待値: {expected}、受け取った値: `{received}`',
+  'errors.expectedNoArgs': '引数なし',
+  'errors.expectedAtMost': { other: '最大 {count} 個の引数' },
+  'errors.unknownOption': '不明なオプション `{name}`',
+  'errors.unknownCommand': '不明なコマンド `{name}`',
+  'errors.didYouMean': { other: 'もしかして {suggestions}?' },
+  'errors.optionValueMissing': 'オプション `{name}` の値がありません',
+  'errors.optionConflict': 'オプション `{name}` は `{other}` と同時に使用できません',
+  'errors.optionRequires': 'オプション `{name}` には `{other}` が必要です',
+  'errors.optionGroupRequired': '{flags} のいずれかが必須です',
+  'errors.valueMissing': '{label} の値がありません',
+  'errors.notKeyValue': '{label} は key=value の形式で指定してください。受け取った値: `{value}`',
+  'errors.notNumber': '{label} は数値で指定してください。受け取った値: `{value}`',
+  'errors.notInteger': '{label} は整数で指定してください。受け取った値: `{value}`',
+  'errors.notBoolean': '{label} は真偽値で指定してください。受け取った値: `{value}`',
+  'errors.invalid': '{label} が不正です: {reason}',
+  'errors.notChoice': '{label} は {choices} のいずれかで指定してください。受け取った値: `{value}`',
+  'errors.belowMin': '{label} は {min} 以上で指定してください。受け取った値: `{value}`',
+  'errors.aboveMax': '{label} は {max} 以下で指定してください。受け取った値: `{value}`',
+  'errors.cancelled': 'キャンセルされました',
+  'errors.commandNotFound': 'コマンド `{command}` が見つかりません',
+  'errors.configParse': '設定ファイル `{file}` を解析できません: {reason}',
+  'errors.unterminatedQuote': 'レスポンスファイル `{location}` の引用符が閉じられていません',
+  'errors.responseFileAt': ' (`{location}`)',
+  'errors.responseFileLoop': 'レスポンスファイルが互いを読み込んでいます{at}: {files}',
+  'errors.responseFilesTooDeep': 'レスポンスファイルの入れ子が {depth} 階層を超えています{at}',
+  'errors.responseFileRead': 'レスポンスファイル `{file}` を読み込めません{at}: {reason}',
+  'errors.invalidArgument': 'コマンド `{command}` の引数 `{name}` が不正です',
+  'errors.requiredAfterOptional': 'コマンド `{command}` の必須引数 `{name}` は省略可能な引数 `{optional}` の後に置けません',
+  'errors.variadicNotLast': 'コマンド `{command}` の可変長引数 `{name}` は最後の引数でなければなりません',
+  'errors.pluginInstalled': 'プラグイン `{name}` は既にインストールされています',
+  'errors.pluginCommandExists': 'プラグイン `{name}` はコマンド `{command}` を追加できません。既に存在します',
+  'errors.notAPlugin': 'パッケージ `{package}` はプラグインをエクスポートしていません',
+  'errors.commandsDirRead': 'コマンドディレクトリ `{dir}` を読み込めません: {reason}',
+  'errors.nextCalledTwice': 'ミドルウェアで `next()` が複数回呼び出されました',
+  'labels.option': 'オプション `{name}`',
+  'labels.argument': '引数 `{name}`',
+
+  // Hints under parse errors
+  'hints.passArgs': '{args} を指定してください',
+  'hints.quoteArgs': '空白を含む引数は引用符で囲むと一つの引数として渡せます',
+  'hints.doubleDash': '`-` で始まる引数を渡すには前に `--` を付けてください',
+  'hints.passValue': '値を指定してください (例: `{flag} {value}`)',
+  'diagnostics.origin': '読み込み元: {origin}',
+  'diagnostics.hint': 'ヒント: {hint}',
+  'diagnostics.usage': '使い方: {usage}',
+
+  // Prefixes of printed errors and warnings
+  'prefix.error': 'エラー',
+  'prefix.warning': '警告',
+
+  // Deprecation warnings
+  'deprecation.command': 'コマンド `{name}` は非推奨です',
+  'deprecation.option': 'オプション `{name}` は非推奨です',
+  'deprecation.removeIn': '。{version} で削除されます',
+  'deprecation.replacement': '。代わりに `{replacement}` を使用してください',
+  'deprecation.reason': ': {reason}',
+
+  // Prompts
+  'prompts.yes': 'はい',
+  'prompts.no': 'いいえ',
+  'prompts.selectAtLeastOne': '一つ以上選択してください。',
+  'prompts.selectKeys': '{space} で選択、{enter} で決定',
+  'prompts.cancel': 'キャンセルしました',
+  'prompts.error': 'エラーが発生しました',
+  'shutdown.stopping': '停止しています。すぐに終了するにはもう一度 Ctrl+C を押してください',
+
+  // Built-in options and commands
+  'Display this message': 'このヘルプを表示',
+  'Display version number': 'バージョン番号を表示',
+  'Output format': '出力形式',
+  'Output a shell completion script': 'シェル補完スクリプトを出力',
+}
@@ -0,0 +1,86 @@
+import type CLI from './CLI'
+import type Command from './Command'
+import { t } from './i18n'
+import { ClappError } from './utils'
+
+/**
+ * The state shared by the middleware chain of a single command run
+ */
+export interface CommandContext {
+  cli: CLI
+  /** The matched command */
+  command: Command
+  /** Positional values passed to the action, before the options object */
+  args: any[]
+  /** Parsed options passed to the action, can be mutated or replaced */
+  options: { [k: string]: any }
+  /** Aborted when the process is shutting down, see `cli.signal` */
+  signal: AbortSignal
+  /** Return value of the action, set once it resolves */
+  result?: any
+  /** Error thrown by the action or a later middleware */
+  error?: unknown
+}
+
+/**
+ * Wraps the command run, call `next()` to continue or skip it to short-circuit
+ */
+export type Middleware = (context: CommandContext, next: () => Promise<any>) => any
+
+export type Hook = (context: CommandContext) => any
+
+/**
+ * Compose middleware into a single function which ends with `handler`
+ * @param middleware Middleware in the order they run
+ * @param handler The final step, usually the command action
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: (context: CommandContext) => any,
+): (context: CommandContext) => Promise<any> {
+  return (context) => {
+    let index = -1
+
+    const dispatch = async (i: number): Promise<any> => {
+      if (i <= index) {
+        throw new ClappError(t('errors.nextCalledTwice'))
+      }
+      index = i
+
+      if (i === middleware.length) {
+        return handler(context)
+      }
+      return middleware[i](context, () => dispatch(i + 1))
+    }
+
+    return dispatch(0)
+  }
+}
+
+/**
+ * Turn a hook into middleware which runs it before the command
+ */
+export function beforeRunMiddleware(hook: Hook): Middleware {
+  return async (context, next) => {
+    await hook(context)
+    return next()
+  }
+}
+
+/**
+ * Turn a hook into middleware which runs it after the command, even when it throws
+ */
+export function afterRunMiddleware(hook: Hook): Middleware {
+  return async (context, next) => {
+    try {
+      return await next()
+    }
+    catch (error) {
+      context.error = error
+      throw error
+    }
+    finally {
+      await hook(context)
+    }
+  }
+}
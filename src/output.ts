@@ -0,0 +1,141 @@
+import { formatTable, style } from './style'
+
+export type OutputFormat = 'json' | 'yaml' | 'table' | 'csv' | 'text'
+
+export const outputFormats: OutputFormat[] = ['json', 'yaml', 'table', 'csv', 'text']
+
+export interface OutputRenderOptions {
+  /** Style `text` output with the `style` theme */
+  color?: boolean
+}
+
+/**
+ * Whether a format is read by programs, so everything else goes to stderr
+ */
+export function isMachineFormat(format: OutputFormat): boolean {
+  return format === 'json' || format === 'yaml' || format === 'csv'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Turn data into a header and rows: a record is one row, a list of records one row each,
+ * and other values a `value` column
+ */
+function toRows(data: unknown): string[][] {
+  const items = Array.isArray(data) ? data : [data]
+  if (items.length === 0 || !items.every(isRecord)) {
+    return [['value'], ...items.map(item => [formatCell(item)])]
+  }
+
+  const columns = [...new Set(items.flatMap(item => Object.keys(item)))]
+  return [columns, ...items.map(item => columns.map(column => formatCell(item[column])))]
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null'
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value !== 'string') {
+    return String(value)
+  }
+  // Quote strings YAML would read as another type or as syntax
+  return value === ''
+    || /^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#]\s|\s$|^(?:true|false|yes|no|on|off|null|~)$/i.test(value)
+    || !Number.isNaN(Number(value))
+    || value.includes('\n')
+    ? JSON.stringify(value)
+    : value
+}
+
+function renderYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]'
+    }
+    return value
+      .map((item) => {
+        const rendered = renderYaml(item, `${indent}  `)
+        return `${indent}- ${(Array.isArray(item) || isRecord(item)) && rendered.includes('\n') ? rendered.trimStart() : rendered.trim()}`
+      })
+      .join('\n')
+  }
+
+  if (isRecord(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    if (entries.length === 0) {
+      return '{}'
+    }
+    return entries
+      .map(([key, item]) => {
+        const name = `${indent}${formatYamlScalar(key)}:`
+        const nested = (Array.isArray(item) && item.length > 0) || (isRecord(item) && Object.keys(item).length > 0)
+        return nested
+          ? `${name}\n${renderYaml(item, Array.isArray(item) ? indent : `${indent}  `)}`
+          : `${name} ${renderYaml(item)}`
+      })
+      .join('\n')
+  }
+
+  return `${indent}${formatYamlScalar(value)}`
+}
+
+function renderText(data: unknown, { color = false }: OutputRenderOptions): string {
+  if (Array.isArray(data)) {
+    return data.some(isRecord)
+      ? formatTable(toRows(data), { header: true })
+      : data.map(formatCell).join('\n')
+  }
+
+  if (isRecord(data)) {
+    const width = Math.max(...Object.keys(data).map(key => key.length))
+    return Object.entries(data)
+      .map(([key, value]) => {
+        const name = `${key}:`.padEnd(width + 1)
+        return `${color ? style.muted(name) : name}  ${formatCell(value)}`
+      })
+      .join('\n')
+  }
+
+  return formatCell(data)
+}
+
+/**
+ * Render the data returned by an action
+ * @param data Plain data, e.g. a record or a list of records
+ * @param format Output format
+ * @param options Render options
+ */
+export function renderOutput(data: unknown, format: OutputFormat, options: OutputRenderOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2)
+    case 'yaml':
+      return renderYaml(data)
+    case 'csv':
+      return toRows(data).map(row => row.map(escapeCsv).join(',')).join('\n')
+    case 'table':
+      return formatTable(toRows(data), { header: true, border: true })
+    default:
+      return renderText(data, options)
+  }
+}
@@ -0,0 +1,149 @@
+import type CLI from './CLI'
+import type Command from './Command'
+import type { CommandConfig } from './Command'
+import type { HelpSection } from './help'
+import type { Hook, Middleware } from './middleware'
+import type { OptionConfig } from './Option'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { pathToFileURL } from 'node:url'
+import { t } from './i18n'
+import { afterRunMiddleware, beforeRunMiddleware } from './middleware'
+import { ClappError, removeBrackets } from './utils'
+
+/**
+ * What a plugin can register on a CLI
+ */
+export interface PluginContext {
+  cli: CLI
+  /** Add a command, nested under the plugin namespace if it has one */
+  command: (rawName: string, description?: string, config?: CommandConfig) => Command
+  /** Add a global option */
+  option: (rawName: string, description: string, config?: OptionConfig) => void
+  /** Add a section to help output */
+  helpSection: (section: HelpSection) => void
+  /** Add a global middleware, ordered by `plugin.enforce` */
+  use: (middleware: Middleware) => void
+  beforeRun: (hook: Hook) => void
+  afterRun: (hook: Hook) => void
+}
+
+export interface Plugin {
+  /** Unique plugin name */
+  name: string
+  /** Nest the commands of the plugin under this name, e.g. `auth` for `auth login` */
+  namespace?: string
+  /**
+   * Run the middleware of the plugin before (`pre`) or after (`post`) all other middleware,
+   * instead of in the order it was added
+   */
+  enforce?: 'pre' | 'post'
+  setup: (context: PluginContext) => void
+}
+
+/**
+ * Define a plugin with type checking
+ */
+export function definePlugin(plugin: Plugin): Plugin {
+  return plugin
+}
+
+/**
+ * Run the setup of a plugin against a CLI
+ */
+export function installPlugin(cli: CLI, plugin: Plugin): void {
+  const { name, namespace, enforce } = plugin
+
+  const use = (middleware: Middleware) => {
+    if (enforce) {
+      cli.pluginMiddleware[enforce].push(middleware)
+    }
+    else {
+      cli.globalCommand.use(middleware)
+    }
+  }
+
+  plugin.setup({
+    cli,
+    command(rawName, description, config) {
+      const fullName = namespace ? `${namespace} ${rawName}` : rawName
+      const commandName = removeBrackets(fullName)
+      if (cli.commands.some(command => command.name === commandName)) {
+        throw new ClappError(t('errors.pluginCommandExists', { name, command: commandName }))
+      }
+      return cli.command(fullName, description, config)
+    },
+    option(rawName, description, config) {
+      cli.option(rawName, description, config)
+    },
+    helpSection(section) {
+      cli.helpSections.push(section)
+    },
+    use,
+    beforeRun: hook => use(beforeRunMiddleware(hook)),
+    afterRun: hook => use(afterRunMiddleware(hook)),
+  })
+}
+
+async function readPackageEntry(dir: string): Promise<string> {
+  const pkg = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'))
+  const exports = typeof pkg.exports === 'object' && pkg.exports !== null
+    ? pkg.exports['.'] ?? pkg.exports
+    : pkg.exports
+  const entry = typeof exports === 'string'
+    ? exports
+    : exports?.import ?? exports?.default ?? pkg.module ?? pkg.main ?? 'index.js'
+  return path.join(dir, entry)
+}
+
+/**
+ * Find the plugin package names of a CLI, `<name>-plugin-*` and `@scope/<name>-plugin-*`,
+ * in a `node_modules` directory
+ */
+async function findPluginPackages(name: string, nodeModules: string): Promise<string[]> {
+  const prefix = `${name}-plugin-`
+  let entries: string[]
+  try {
+    entries = await fs.readdir(nodeModules)
+  }
+  catch {
+    return []
+  }
+
+  const packages: string[] = []
+  for (const entry of entries.sort()) {
+    if (entry.startsWith(prefix)) {
+      packages.push(entry)
+    }
+    else if (entry.startsWith('@')) {
+      const scoped = await fs.readdir(path.join(nodeModules, entry)).catch(() => [] as string[])
+      packages.push(...scoped.sort().filter(pkg => pkg.startsWith(prefix)).map(pkg => `${entry}/${pkg}`))
+    }
+  }
+  return packages
+}
+
+/**
+ * Load the plugins of a CLI from `<name>-plugin-*` packages in `node_modules`
+ *
+ * A package exports its plugin as `default` or `plugin`, or a function returning it.
+ * @param name Program name
+ * @param cwd Directory containing `node_modules`
+ */
+export async function discoverPlugins(name: string, cwd: string = process.cwd()): Promise<Plugin[]> {
+  const nodeModules = path.join(cwd, 'node_modules')
+  const plugins: Plugin[] = []
+
+  for (const pkg of await findPluginPackages(name, nodeModules)) {
+    const entry = await readPackageEntry(path.join(nodeModules, pkg))
+    const mod = await import(pathToFileURL(entry).href)
+    const exported = mod.default ?? mod.plugin
+    const plugin = typeof exported === 'function' ? exported() : exported
+    if (!plugin || typeof plugin.setup !== 'function') {
+      throw new ClappError(t('errors.notAPlugin', { package: pkg }))
+    }
+    plugins.push(plugin)
+  }
+  return plugins
+}
@@ -1,6 +1,7 @@
 import type { CommonOptions } from './common.js'
 import color from 'picocolors'
 import { ConfirmPrompt } from '../core'
+import { t } from '../i18n'
 import {
   processMarkdown,
   S_BAR,
@@ -17,8 +18,8 @@ export interface ConfirmOptions extends CommonOptions {
   initialValue?: boolean
 }
 export function confirm(opts: ConfirmOptions) {
-  const active = opts.active ?? 'Yes'
-  const inactive = opts.inactive ?? 'No'
+  const active = opts.active ?? t('prompts.yes')
+  const inactive = opts.inactive ?? t('prompts.no')
   const message = processMarkdown(opts.message)
 
   return new ConfirmPrompt({
@@ -1,6 +1,7 @@
 import type { CommonOptions } from './common'
 import process from 'node:process'
 import pc from 'picocolors'
+import { settings } from '../utils/index'
 import {
   processMarkdown,
   S_BAR,
@@ -48,7 +49,7 @@ export const log: Log = {
     {
       symbol = pc.gray(S_BAR),
       secondarySymbol = pc.gray(S_BAR),
-      output = process.stdout,
+      output = settings.output || process.stdout,
       spacing = 1,
     }: LogMessageOptions = {},
   ) => {
@@ -2,6 +2,7 @@ import type { CommonOptions } from './common'
 import type { Option } from './select'
 import color from 'picocolors'
 import { MultiSelectPrompt } from '../core'
+import { t } from '../i18n'
 import {
   S_BAR,
   S_BAR_END,
@@ -56,11 +57,12 @@ export function multiselect<Value>(opts: MultiSelectOptions<Value>) {
     cursorAt: opts.cursorAt,
     validate(selected: Value[]) {
       if (this.required && selected.length === 0) {
-        return `Please select at least one option.\n${color.reset(
+        return `${t('prompts.selectAtLeastOne')}\n${color.reset(
           color.dim(
-            `Press ${color.gray(color.bgWhite(color.inverse(' space ')))} to select, ${color.gray(
-              color.bgWhite(color.inverse(' enter ')),
-            )} to submit`,
+            t('prompts.selectKeys', {
+              space: color.gray(color.bgWhite(color.inverse(' space '))),
+              enter: color.gray(color.bgWhite(color.inverse(' enter '))),
+            }),
           ),
         )}`
       }
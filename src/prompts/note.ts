@@ -3,6 +3,7 @@ import type { CommonOptions } from './common'
 import process from 'node:process'
 import { stripVTControlCharacters as strip } from 'node:util'
 import color from 'picocolors'
+import { settings } from '../utils/index'
 import {
   processMarkdown,
   S_BAR,
@@ -26,7 +27,7 @@ export const note: (message: string, title: string, opts?: NoteOptions) => void
 
   const lines = ['', ...processedMessage.split('\n').map(format), '']
   const titleLen = strip(processedTitle).length
-  const output: Writable = opts?.output ?? process.stdout
+  const output: Writable = opts?.output ?? (settings.output || process.stdout)
   const len
     = Math.max(
       lines.reduce((sum, ln) => {
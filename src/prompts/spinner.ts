@@ -1,6 +1,7 @@
 import type { CommonOptions } from './common'
 import process from 'node:process'
 import color from 'picocolors'
+import { t } from '../i18n'
 import { cursor, erase } from '../utils'
 import { block, settings } from '../utils/index'
 import {
@@ -31,7 +32,7 @@ export interface SpinnerResult {
 export function spinner({
   indicator = 'dots',
   onCancel,
-  output = process.stdout,
+  output = settings.output || process.stdout,
   cancelMessage,
   errorMessage,
   frames = unicode ? ['◒', '◐', '◓', '◑'] : ['•', 'o', 'O', '0'],
@@ -92,8 +93,8 @@ export function spinner({
   function handleExit(code: number) {
     const msg
       = code > 1
-        ? (errorMessage ?? settings.messages.error)
-        : (cancelMessage ?? settings.messages.cancel)
+        ? (errorMessage ?? settings.messages.error ?? t('prompts.error'))
+        : (cancelMessage ?? settings.messages.cancel ?? t('prompts.cancel'))
     isCancelled = code === 1
     if (isSpinnerActive) {
       stop(msg, code)
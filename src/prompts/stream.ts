@@ -1,7 +1,9 @@
+import type { Writable } from 'node:stream'
 import type { LogMessageOptions } from './log'
 import process from 'node:process'
 import { stripVTControlCharacters as strip } from 'node:util'
 import color from 'picocolors'
+import { getColumns, settings } from '../utils/index'
 import { S_BAR, S_ERROR, S_INFO, S_STEP_SUBMIT, S_SUCCESS, S_WARN } from './common'
 
 const prefix = `${color.gray(S_BAR)}  `
@@ -16,17 +18,15 @@ interface Stream {
   error: (iterable: Iterable<string> | AsyncIterable<string>) => Promise<void>
 }
 
-// TODO (43081j): this currently doesn't support custom `output` writables
-// because we rely on `columns` existing (i.e. `process.stdout.columns).
-//
-// If we want to support `output` being passed in, we will need to use
-// a condition like `if (output insance Writable)` to check if it has columns
+// Writes to `settings.output`, which is stderr while `--output json` prints data to stdout
 export const stream: Stream = {
   message: async (
     iterable: Iterable<string> | AsyncIterable<string>,
     { symbol = color.gray(S_BAR) }: LogMessageOptions = {},
   ) => {
-    process.stdout.write(`${color.gray(S_BAR)}\n${symbol}  `)
+    const output: Writable = settings.output || process.stdout
+    const columns = getColumns(output)
+    output.write(`${color.gray(S_BAR)}\n${symbol}  `)
     let lineWidth = 3
     for await (let chunk of iterable) {
       chunk = chunk.replace(/\n/g, `\n${prefix}`)
@@ -34,16 +34,16 @@ export const stream: Stream = {
         lineWidth = 3 + strip(chunk.slice(chunk.lastIndexOf('\n'))).length
       }
       const chunkLen = strip(chunk).length
-      if (lineWidth + chunkLen < process.stdout.columns) {
+      if (lineWidth + chunkLen < columns) {
         lineWidth += chunkLen
-        process.stdout.write(chunk)
+        output.write(chunk)
       }
       else {
-        process.stdout.write(`\n${prefix}${chunk.trimStart()}`)
+        output.write(`\n${prefix}${chunk.trimStart()}`)
         lineWidth = 3 + strip(chunk.trimStart()).length
       }
     }
-    process.stdout.write('\n')
+    output.write('\n')
   },
   info: (iterable: Iterable<string> | AsyncIterable<string>) => {
     return stream.message(iterable, { symbol: color.blue(S_INFO) })
@@ -3,7 +3,7 @@ import type { CommonOptions } from './common'
 import process from 'node:process'
 import * as color from 'picocolors'
 import { erase } from '../utils'
-import { getColumns } from '../utils/index'
+import { getColumns, settings } from '../utils/index'
 import { isCI as isCIFn, S_BAR, S_STEP_SUBMIT } from './common'
 import { log } from './log'
 
@@ -26,7 +26,7 @@ export interface TaskLogCompletionOptions {
  * Renders a log which clears on success and remains on failure
  */
 export function taskLog(opts: TaskLogOptions) {
-  const output: Writable = opts.output ?? process.stdout
+  const output: Writable = opts.output ?? (settings.output || process.stdout)
   const columns = getColumns(output)
   const secondarySymbol = color.gray(S_BAR)
   const spacing = opts.spacing ?? 1
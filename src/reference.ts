@@ -0,0 +1,222 @@
+import type CLI from './CLI'
+import type Command from './Command'
+import type Option from './Option'
+import { t } from './i18n'
+
+export interface ReferenceOptions {
+  /** One-line summary of the program, used for the man page `NAME` section */
+  description?: string
+}
+
+export interface ManPageOptions extends ReferenceOptions {
+  /**
+   * Manual section
+   * @default 1
+   */
+  section?: number
+  /**
+   * Date in the man page header
+   * @default today
+   */
+  date?: string
+}
+
+interface ReferenceArg {
+  name: string
+  description: string
+  required: boolean
+}
+
+interface ReferenceOption {
+  flags: string
+  description: string
+  default?: string
+}
+
+interface ReferenceCommand {
+  usage: string
+  description: string
+  aliases: string[]
+  args: ReferenceArg[]
+  options: ReferenceOption[]
+  examples: string[]
+}
+
+function getReferenceOptions(command: Command, options: Option[]): ReferenceOption[] {
+  return options
+    .filter(option => !option.config.hidden)
+    .map(option => ({
+      flags: option.rawName,
+      description: [option.description && t(option.description), ...command.describeOptionDetails(option, false)]
+        .filter(Boolean)
+        .join(' '),
+      default: option.config.default === undefined ? undefined : String(option.config.default),
+    }))
+}
+
+/**
+ * Collect the documented commands of a CLI, the global command first
+ */
+function getReferenceCommands(cli: CLI): ReferenceCommand[] {
+  const { name, globalCommand } = cli
+  const commands = cli.commands.filter(command => !command.config.hidden)
+
+  return [globalCommand, ...commands].map(command => ({
+    usage: `${name} ${command.usageText || command.rawName}`,
+    description: command.isGlobalCommand || !command.description ? '' : t(command.description),
+    aliases: command.aliasNames,
+    args: command.args.map(arg => ({
+      name: arg.variadic ? `${arg.value}...` : arg.value,
+      description: arg.description ? t(arg.description) : '',
+      required: arg.required,
+    })),
+    options: getReferenceOptions(command, command.options),
+    examples: command.examples.map(example => typeof example === 'function' ? example(name) : example),
+  }))
+}
+
+function escapeRoff(text: string): string {
+  return text
+    .replace(/\\/g, '\\e')
+    .replace(/-/g, '\\-')
+    .replace(/^[.']/gm, '\\&$&')
+}
+
+/**
+ * Generate a roff man page documenting every command of a CLI
+ */
+export function generateManPage(cli: CLI, options: ManPageOptions = {}): string {
+  const { section = 1, date = new Date().toISOString().slice(0, 10), description } = options
+  const { name } = cli
+  const { versionNumber } = cli.globalCommand
+  const [global, ...commands] = getReferenceCommands(cli)
+
+  const renderOptions = (options: ReferenceOption[]) => options.map(option => [
+    '.TP',
+    `.B ${escapeRoff(option.flags)}`,
+    escapeRoff([option.description, option.default === undefined ? '' : t('help.default', { value: option.default })]
+      .filter(Boolean)
+      .join(' ')),
+  ].join('\n'))
+
+  const lines: string[] = [
+    `.TH "${escapeRoff(name.toUpperCase())}" "${section}" "${date}" "${escapeRoff(`${name}${versionNumber ? ` ${versionNumber}` : ''}`)}" "${escapeRoff(t('reference.userCommands'))}"`,
+    `.SH ${escapeRoff(t('reference.name').toUpperCase())}`,
+    `${escapeRoff(name)}${description ? ` \\- ${escapeRoff(description)}` : ''}`,
+    `.SH ${escapeRoff(t('reference.synopsis').toUpperCase())}`,
+    `.B ${escapeRoff(global.usage)}`,
+  ]
+
+  if (global.options.length > 0) {
+    lines.push(`.SH ${escapeRoff(t('help.options').toUpperCase())}`, ...renderOptions(global.options))
+  }
+
+  if (commands.length > 0) {
+    lines.push(`.SH ${escapeRoff(t('help.commands').toUpperCase())}`)
+    for (const command of commands) {
+      lines.push(`.SS ${escapeRoff(command.usage)}`)
+      if (command.description) {
+        lines.push(escapeRoff(command.description))
+      }
+      if (command.aliases.length > 0) {
+        lines.push('.PP', escapeRoff(`${t('reference.aliases')}: ${command.aliases.join(', ')}`))
+      }
+      if (command.args.length > 0) {
+        lines.push('.PP', escapeRoff(`${t('help.arguments')}:`))
+        for (const arg of command.args) {
+          lines.push(
+            '.TP',
+            `.I ${escapeRoff(arg.name)}`,
+            escapeRoff([arg.description, arg.required ? t('reference.requiredNote') : ''].filter(Boolean).join(' ')),
+          )
+        }
+      }
+      if (command.options.length > 0) {
+        lines.push('.PP', escapeRoff(`${t('help.options')}:`), ...renderOptions(command.options))
+      }
+      if (command.examples.length > 0) {
+        lines.push('.PP', escapeRoff(`${t('help.examples')}:`), '.PP', '.nf', ...command.examples.map(escapeRoff), '.fi')
+      }
+    }
+  }
+
+  if (global.examples.length > 0) {
+    lines.push(`.SH ${escapeRoff(t('help.examples').toUpperCase())}`, '.nf', ...global.examples.map(escapeRoff), '.fi')
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|')
+}
+
+/**
+ * Render the header row and separator of a Markdown table
+ */
+function renderTableHeader(titles: string[]): string {
+  return [
+    `| ${titles.map(escapeTableCell).join(' | ')} |`,
+    `| ${titles.map(title => '-'.repeat(Math.max(3, title.length))).join(' | ')} |`,
+  ].join('\n')
+}
+
+function renderMarkdownOptions(options: ReferenceOption[]): string {
+  return [
+    renderTableHeader([t('reference.option'), t('reference.description'), t('reference.default')]),
+    ...options.map(option => `| \`${escapeTableCell(option.flags)}\` | ${escapeTableCell(option.description)} | ${
+      option.default === undefined ? '' : `\`${escapeTableCell(option.default)}\``
+    } |`),
+  ].join('\n')
+}
+
+/**
+ * Generate a Markdown reference documenting every command of a CLI
+ */
+export function generateMarkdownReference(cli: CLI, options: ReferenceOptions = {}): string {
+  const [global, ...commands] = getReferenceCommands(cli)
+  const blocks: string[] = [`# ${cli.name}`]
+
+  if (options.description) {
+    blocks.push(options.description)
+  }
+
+  blocks.push(`## ${t('help.usage')}`, `\`\`\`sh\n$ ${global.usage}\n\`\`\``)
+
+  if (global.options.length > 0) {
+    blocks.push(`## ${t('reference.globalOptions')}`, renderMarkdownOptions(global.options))
+  }
+
+  if (global.examples.length > 0) {
+    blocks.push(`## ${t('help.examples')}`, `\`\`\`sh\n${global.examples.join('\n')}\n\`\`\``)
+  }
+
+  if (commands.length > 0) {
+    blocks.push(`## ${t('help.commands')}`)
+  }
+  for (const command of commands) {
+    blocks.push(`### \`${command.usage}\``)
+    if (command.description) {
+      blocks.push(command.description)
+    }
+    if (command.aliases.length > 0) {
+      blocks.push(`**${t('reference.aliases')}:** ${command.aliases.map(alias => `\`${alias}\``).join(', ')}`)
+    }
+    if (command.args.length > 0) {
+      blocks.push(`#### ${t('help.arguments')}`, [
+        renderTableHeader([t('reference.argument'), t('reference.description'), t('reference.required')]),
+        ...command.args.map(arg => `| \`${arg.name}\` | ${escapeTableCell(arg.description)} | ${
+          arg.required ? t('reference.yes') : t('reference.no')
+        } |`),
+      ].join('\n'))
+    }
+    if (command.options.length > 0) {
+      blocks.push(`#### ${t('help.options')}`, renderMarkdownOptions(command.options))
+    }
+    if (command.examples.length > 0) {
+      blocks.push(`#### ${t('help.examples')}`, `\`\`\`sh\n${command.examples.join('\n')}\n\`\`\``)
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
@@ -0,0 +1,163 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import process from 'node:process'
+import { t } from './i18n'
+import { ClappError } from './utils'
+
+export interface ResponseFileOptions {
+  /**
+   * Directory `@file` args in argv resolve against, includes resolve against their file
+   * @default process.cwd()
+   */
+  cwd?: string
+  /**
+   * How deep response files may include each other
+   * @default 10
+   */
+  maxDepth?: number
+}
+
+export interface ExpandedArgv {
+  args: string[]
+  /** Where each arg was read from, e.g. `build.args:3`, `undefined` for args passed on the command line */
+  origins: Array<string | undefined>
+}
+
+interface ResponseFileToken {
+  value: string
+  line: number
+  /** Quoted tokens are never includes */
+  quoted: boolean
+}
+
+function isInclude(token: string): boolean {
+  return token.length > 1 && token.startsWith('@')
+}
+
+/**
+ * Split the content of a response file into args
+ *
+ * Args are separated by whitespace, single and double quotes keep whitespace
+ * (a backslash escapes `"` and `\` in double quotes) and `#` starts a comment until the end of the line.
+ * @param content File content
+ * @param file File name used in error messages
+ */
+function tokenizeResponseFile(content: string, file: string): ResponseFileToken[] {
+  const tokens: ResponseFileToken[] = []
+  let line = 1
+  let index = 0
+
+  while (index < content.length) {
+    const char = content[index]
+    if (char === '\n') {
+      line++
+      index++
+      continue
+    }
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+    if (char === '#') {
+      while (index < content.length && content[index] !== '\n') {
+        index++
+      }
+      continue
+    }
+
+    const start = line
+    let value = ''
+    let quoted = false
+    while (index < content.length && !/\s/.test(content[index])) {
+      const quote = content[index]
+      if (quote !== '"' && quote !== '\'') {
+        value += quote
+        index++
+        continue
+      }
+
+      quoted = true
+      index++
+      while (content[index] !== quote) {
+        if (index >= content.length) {
+          throw new ClappError(t('errors.unterminatedQuote', { location: `${file}:${start}` }))
+        }
+        if (content[index] === '\n') {
+          line++
+        }
+        if (quote === '"' && content[index] === '\\' && (content[index + 1] === '"' || content[index + 1] === '\\')) {
+          index++
+        }
+        value += content[index]
+        index++
+      }
+      index++
+    }
+    tokens.push({ value, line: start, quoted })
+  }
+
+  return tokens
+}
+
+/**
+ * Replace `@file` args with the args in those files, recursively
+ *
+ * Args after `--` are left as they are.
+ * @param argv Args without the program and script paths
+ * @param options Response file options
+ * @returns The expanded args and the file and line each of them was read from
+ */
+export function expandResponseFiles(argv: string[], options: ResponseFileOptions = {}): ExpandedArgv {
+  const { cwd = process.cwd(), maxDepth = 10 } = options
+  const expanded: ExpandedArgv = { args: [], origins: [] }
+
+  /**
+   * @param file Response file to read
+   * @param includes Files including it, outermost first
+   * @param location Where it is included, e.g. `args.txt:3`, for error messages
+   */
+  const expandFile = (file: string, includes: string[], location?: string): void => {
+    const at = location ? t('errors.responseFileAt', { location }) : ''
+    if (includes.includes(file)) {
+      throw new ClappError(t('errors.responseFileLoop', {
+        at,
+        files: [...includes, file].map(include => path.relative(cwd, include)).join(' -> '),
+      }))
+    }
+    if (includes.length >= maxDepth) {
+      throw new ClappError(t('errors.responseFilesTooDeep', { depth: maxDepth, at }))
+    }
+
+    let content: string
+    try {
+      content = fs.readFileSync(file, 'utf8')
+    }
+    catch (error: any) {
+      throw new ClappError(t('errors.responseFileRead', { file: path.relative(cwd, file), at, reason: error.message }))
+    }
+
+    const name = path.relative(cwd, file)
+    for (const token of tokenizeResponseFile(content, name)) {
+      if (!token.quoted && isInclude(token.value)) {
+        expandFile(path.resolve(path.dirname(file), token.value.slice(1)), [...includes, file], `${name}:${token.line}`)
+      }
+      else {
+        expanded.args.push(token.value)
+        expanded.origins.push(`${name}:${token.line}`)
+      }
+    }
+  }
+
+  const doubleDashesIndex = argv.indexOf('--')
+  const end = doubleDashesIndex === -1 ? argv.length : doubleDashesIndex
+  argv.forEach((arg, index) => {
+    if (index < end && isInclude(arg)) {
+      expandFile(path.resolve(cwd, arg.slice(1)), [])
+    }
+    else {
+      expanded.args.push(arg)
+      expanded.origins.push(undefined)
+    }
+  })
+  return expanded
+}
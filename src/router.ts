@@ -0,0 +1,221 @@
+import type CLI from './CLI'
+import type Command from './Command'
+import type { CommandAction, CommandLoader } from './Command'
+import type { OptionConfig } from './Option'
+import type { ValueType } from './utils'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { t } from './i18n'
+import { ClappError } from './utils'
+
+export interface CommandFileOption {
+  /** e.g. `-f, --force` */
+  flags: string
+  description: string
+  config?: OptionConfig
+}
+
+/**
+ * What a file in a commands directory exports
+ */
+export interface CommandFile {
+  description?: string
+  options?: CommandFileOption[]
+  aliases?: string[]
+  default?: CommandAction
+  action?: CommandAction
+}
+
+/**
+ * A command discovered in a commands directory
+ */
+export interface CommandRoute {
+  /** Raw command name with args, e.g. `db migrate <name>` */
+  name: string
+  description: string
+  options: CommandFileOption[]
+  aliases: string[]
+  load: CommandLoader
+}
+
+const extensions = ['.ts', '.mts', '.js', '.mjs']
+
+const valueTypes: Record<string, ValueType> = { string: String, number: Number, boolean: Boolean }
+
+/**
+ * Store the constructors in an option type by name for JSON, e.g. `'number'` for `Number`
+ * and `['string']` for `[String]`, other functions are left out
+ */
+function serializeOptionType(type: OptionConfig['type']): OptionConfig['type'] {
+  if (Array.isArray(type)) {
+    const names = type.map(item => serializeOptionType(item))
+    return names.includes(undefined) ? undefined : names
+  }
+  return typeof type === 'function'
+    ? Object.keys(valueTypes).find(name => valueTypes[name] === type) as ValueType | undefined
+    : type
+}
+
+/**
+ * Turn the type names of a manifest back into constructors, e.g. `Number` for `'number'`
+ */
+function parseOptionType(type: OptionConfig['type']): OptionConfig['type'] {
+  if (Array.isArray(type)) {
+    return type.map(item => parseOptionType(item))
+  }
+  return typeof type === 'string' ? valueTypes[type] ?? type : type
+}
+
+function serializeOption(option: CommandFileOption): CommandFileOption {
+  if (option.config?.type === undefined) {
+    return option
+  }
+  return { ...option, config: { ...option.config, type: serializeOptionType(option.config.type) } }
+}
+
+function isCommandFile(file: string): boolean {
+  const base = path.basename(file)
+  return extensions.includes(path.extname(file))
+    && !base.startsWith('_')
+    && !base.endsWith('.d.ts')
+    && !/\.(?:test|spec)\.[mc]?[jt]s$/.test(base)
+}
+
+/**
+ * Turn a file path like `db/[name].ts` into a command name like `db <name>`
+ *
+ * `[name]` is a required arg, `[[name]]` an optional one and `[...name]` a variadic one.
+ * `index` files name their directory.
+ */
+export function getRouteName(file: string): string {
+  const segments = file
+    .slice(0, -path.extname(file).length)
+    .split(/[/\\]/)
+    .filter(segment => segment !== 'index')
+
+  const words: string[] = []
+  const args: string[] = []
+  for (const segment of segments) {
+    const match = segment.match(/^\[(\[)?(\.\.\.)?([^\]]+)\]?\]$/)
+    if (!match) {
+      words.push(segment)
+    }
+    else if (match[1]) {
+      args.push(`[${match[2] || ''}${match[3]}]`)
+    }
+    else {
+      args.push(`<${match[2] || ''}${match[3]}>`)
+    }
+  }
+  return [...words, ...args].join(' ')
+}
+
+async function findCommandFiles(dir: string, base = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, base), { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries) {
+    const file = path.join(base, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await findCommandFiles(dir, file))
+    }
+    else if (isCommandFile(file)) {
+      files.push(file)
+    }
+  }
+  return files
+}
+
+async function scanCommandFiles(dir: string): Promise<Array<{ file: string, route: CommandRoute }>> {
+  let files: string[]
+  try {
+    files = await findCommandFiles(dir)
+  }
+  catch (error: any) {
+    throw new ClappError(t('errors.commandsDirRead', { dir, reason: error.message }))
+  }
+
+  const scanned: Array<{ file: string, route: CommandRoute }> = []
+  for (const file of files) {
+    const url = pathToFileURL(path.resolve(dir, file)).href
+    const mod: CommandFile = await import(url)
+    scanned.push({
+      file,
+      route: {
+        name: getRouteName(file),
+        description: mod.description || '',
+        options: mod.options || [],
+        aliases: mod.aliases || [],
+        load: () => import(url),
+      },
+    })
+  }
+  return scanned.sort((a, b) => a.route.name.localeCompare(b.route.name))
+}
+
+/**
+ * Import every command file in a directory, e.g. `commands/db/migrate.ts` as `db migrate`
+ * @param dir Commands directory
+ */
+export async function scanCommands(dir: string): Promise<CommandRoute[]> {
+  return (await scanCommandFiles(dir)).map(({ route }) => route)
+}
+
+/**
+ * Register commands for routes, loading each action when its command runs
+ */
+export function registerCommandRoutes(cli: CLI, routes: CommandRoute[]): Command[] {
+  return routes.map((route) => {
+    const command = cli.command(route.name, route.description).lazy(route.load)
+    for (const option of route.options) {
+      const config = option.config?.type === undefined
+        ? option.config
+        : { ...option.config, type: parseOptionType(option.config.type) }
+      command.option(option.flags, option.description, config)
+    }
+    for (const alias of route.aliases) {
+      command.alias(alias)
+    }
+    return command
+  })
+}
+
+/**
+ * Write a module exporting the routes of a commands directory, with static imports
+ *
+ * Registering the routes from it doesn't scan the file system, and bundlers like
+ * `bun build --compile` include the command modules. Option configs are stored as
+ * JSON, so functions like `parse` are left out. Type constructors are stored by name,
+ * e.g. `'number'` for `Number`, and turned back into constructors on load.
+ * @param dir Commands directory
+ * @param outFile Manifest module to write, e.g. `src/commands.manifest.ts`
+ */
+export async function writeCommandManifest(dir: string, outFile: string): Promise<CommandRoute[]> {
+  const scanned = await scanCommandFiles(dir)
+
+  const entries = scanned.map(({ file, route }) => {
+    let specifier = path
+      .relative(path.dirname(outFile), path.resolve(dir, file))
+      .split(path.sep)
+      .join('/')
+    if (!specifier.startsWith('.')) {
+      specifier = `./${specifier}`
+    }
+    return [
+      '  {',
+      `    name: ${JSON.stringify(route.name)},`,
+      `    description: ${JSON.stringify(route.description)},`,
+      `    options: ${JSON.stringify(route.options.map(serializeOption))},`,
+      `    aliases: ${JSON.stringify(route.aliases)},`,
+      `    load: () => import(${JSON.stringify(specifier)}),`,
+      '  },',
+    ].join('\n')
+  })
+
+  await fs.mkdir(path.dirname(outFile), { recursive: true })
+  await fs.writeFile(
+    outFile,
+    `// Generated by writeCommandManifest(), do not edit\nexport default [\n${entries.join('\n')}\n]\n`,
+  )
+  return scanned.map(({ route }) => route)
+}
@@ -0,0 +1,176 @@
+import type { Readable, Writable } from 'node:stream'
+import type CLI from './CLI'
+import fs from 'node:fs/promises'
+import process from 'node:process'
+import readline from 'node:readline'
+import { getCompletions } from './completion'
+import { t } from './i18n'
+import { ClappError, formatSuggestions, splitArgs } from './utils'
+
+export interface ShellOptions {
+  /**
+   * Prompt shown before each line
+   * @default `${cli.name}> `
+   */
+  prompt?: string
+  /**
+   * Stream to read lines from
+   * @default process.stdin
+   */
+  input?: Readable
+  /**
+   * Stream to render the prompt to
+   * @default process.stdout
+   */
+  output?: Writable
+  /** File to load history from and append each line to */
+  historyFile?: string
+  /**
+   * Number of history lines kept
+   * @default 500
+   */
+  historySize?: number
+}
+
+const builtins = ['help', 'exit', 'quit']
+
+/**
+ * Complete a shell line with command names, options and argument values,
+ * and the `help` and `exit` builtins
+ * @returns Candidates and the word they complete, as expected by `readline`
+ */
+export async function completeShellLine(cli: CLI, line: string): Promise<[string[], string]> {
+  const words = splitArgs(line)
+  if (line === '' || /\s$/.test(line)) {
+    words.push('')
+  }
+  const current = words[words.length - 1]
+
+  const values = (await getCompletions(cli, words)).map(item => item.value)
+  if (words.length === 1) {
+    values.push(...builtins.filter(name => name.startsWith(current)))
+  }
+  return [[...new Set(values)], current]
+}
+
+async function readHistory(file: string, size: number): Promise<string[]> {
+  try {
+    const lines = (await fs.readFile(file, 'utf8')).split('\n').filter(Boolean)
+    // `readline` expects the newest line first
+    return lines.slice(-size).reverse()
+  }
+  catch {
+    return []
+  }
+}
+
+/**
+ * Show help for the CLI, or for the command named by `words`
+ */
+function outputShellHelp(cli: CLI, words: string[]): void {
+  if (words.length === 0) {
+    cli.globalCommand.outputHelp()
+    return
+  }
+
+  const name = words.join(' ')
+  const command = cli.commands.find(command => command.name === name || command.aliasNames.includes(name))
+  if (!command) {
+    throw new ClappError(`${t('errors.unknownCommand', { name })}${formatSuggestions(cli.getCommandSuggestions(words))}`)
+  }
+  command.outputHelp()
+}
+
+/**
+ * Parse a line like argv and run the matched command, printing errors instead of exiting
+ */
+async function runShellLine(cli: CLI, words: string[]): Promise<void> {
+  try {
+    if (words[0] === 'help') {
+      outputShellHelp(cli, words.slice(1))
+      return
+    }
+
+    cli.parse(['node', cli.name, ...words], { run: false })
+    if (!cli.matchedCommand && cli.args.length > 0) {
+      throw new ClappError(`${t('errors.unknownCommand', { name: cli.args[0] })}${formatSuggestions(cli.getCommandSuggestions(cli.args))}`)
+    }
+    await cli.runMatchedCommand()
+  }
+  catch (error) {
+    cli.outputError(error)
+  }
+}
+
+/**
+ * Read lines from a prompt and run each as a command of the CLI, until `exit`
+ *
+ * The CLI is reused across lines, so state like `cli.state` and loaded config is kept.
+ * @param cli CLI instance
+ * @param options Shell options
+ */
+export async function startShell(cli: CLI, options: ShellOptions = {}): Promise<void> {
+  const {
+    prompt = `${cli.name}> `,
+    input = process.stdin,
+    output = process.stdout as Writable,
+    historyFile,
+    historySize = 500,
+  } = options
+
+  if (cli.config.configName) {
+    await cli.loadConfig()
+  }
+
+  const rl = readline.createInterface({
+    input,
+    output,
+    prompt,
+    terminal: !!(input as { isTTY?: boolean }).isTTY,
+    history: historyFile ? await readHistory(historyFile, historySize) : [],
+    historySize,
+    completer: (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+      completeShellLine(cli, line).then(result => callback(null, result), error => callback(error, [[], line]))
+    },
+  })
+
+  // Input may end (Ctrl+D) while buffered lines still run
+  let closed = false
+  rl.on('close', () => {
+    closed = true
+  })
+
+  // Ctrl+C clears the line, or leaves the shell on an empty one
+  rl.on('SIGINT', () => {
+    if (rl.line) {
+      rl.write(null, { ctrl: true, name: 'u' })
+      output.write('\n')
+      rl.prompt()
+    }
+    else {
+      rl.close()
+    }
+  })
+
+  rl.prompt()
+  try {
+    for await (const line of rl) {
+      const words = splitArgs(line)
+      if (words[0] === 'exit' || words[0] === 'quit') {
+        break
+      }
+      if (words.length > 0) {
+        if (historyFile) {
+          await fs.appendFile(historyFile, `${line.trim()}\n`)
+        }
+        await runShellLine(cli, words)
+      }
+      if (!closed) {
+        rl.prompt()
+      }
+    }
+  }
+  finally {
+    rl.close()
+  }
+}
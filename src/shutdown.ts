@@ -0,0 +1,205 @@
+import type { Readable, Writable } from 'node:stream'
+import os from 'node:os'
+import process from 'node:process'
+import { t } from './i18n'
+import { style } from './style'
+import { cursor } from './utils'
+import { setRawMode } from './utils/index'
+
+/**
+ * Undo a change to the terminal or the environment, e.g. close a server
+ */
+export type CleanupCallback = () => void | Promise<void>
+
+export interface ShutdownOptions {
+  /**
+   * Signals which shut down the process, the second one exits immediately
+   * @default ['SIGINT', 'SIGTERM']
+   */
+  signals?: NodeJS.Signals[]
+  /**
+   * Stream whose raw mode is restored
+   * @default process.stdin
+   */
+  input?: Readable
+  /**
+   * Stream the cursor is shown on again
+   * @default process.stdout
+   */
+  output?: Writable
+}
+
+/**
+ * Runs cleanup callbacks and restores the terminal when the process is interrupted
+ *
+ * On the first signal, the `signal` is aborted, running tasks are awaited and cleanup
+ * callbacks run, newest first, before the process exits with `128 + signal number`.
+ * A second signal exits immediately. Active prompts are cancelled.
+ */
+export class ShutdownManager {
+  private controller: AbortController = new AbortController()
+  private callbacks: CleanupCallback[] = []
+  private tasks: Set<Promise<unknown>> = new Set()
+  private input: Readable = process.stdin
+  private output: Writable = process.stdout
+  private uninstall?: () => void
+  private suspended = 0
+  /** Whether a shutdown is in progress */
+  isShuttingDown = false
+
+  /**
+   * Aborted when the process starts shutting down, pass it to `fetch()`, child processes and timers
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  /**
+   * Register a callback to run when the process shuts down
+   * @returns A function removing the callback, call it once the cleanup isn't needed anymore
+   */
+  onCleanup(callback: CleanupCallback): () => void {
+    this.callbacks.push(callback)
+    return () => {
+      const index = this.callbacks.lastIndexOf(callback)
+      if (index !== -1) {
+        this.callbacks.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Keep a task running until it settles when the process shuts down
+   */
+  track<T>(task: Promise<T>): Promise<T> {
+    this.tasks.add(task)
+    const remove = () => {
+      this.tasks.delete(task)
+    }
+    task.then(remove, remove)
+    return task
+  }
+
+  /**
+   * Ignore signals until the returned function is called, e.g. while a child process
+   * owns the terminal and decides itself how to handle Ctrl+C
+   * @returns A function resuming the signal handling
+   */
+  suspend(): () => void {
+    this.suspended++
+    let resumed = false
+    return () => {
+      if (!resumed) {
+        resumed = true
+        this.suspended--
+      }
+    }
+  }
+
+  /**
+   * Listen for signals, and restore the terminal when the process exits
+   * @returns A function removing the listeners
+   */
+  install(options: ShutdownOptions = {}): () => void {
+    if (this.uninstall) {
+      return () => {}
+    }
+
+    const { signals = ['SIGINT', 'SIGTERM'], input = process.stdin, output = process.stdout } = options
+    this.input = input
+    this.output = output
+
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.suspended === 0) {
+        void this.shutdown(128 + os.constants.signals[signal])
+      }
+    }
+    const onExit = () => {
+      this.restoreTerminal()
+    }
+    for (const signal of signals) {
+      process.on(signal, onSignal)
+    }
+    process.on('exit', onExit)
+
+    this.uninstall = () => {
+      for (const signal of signals) {
+        process.off(signal, onSignal)
+      }
+      process.off('exit', onExit)
+      this.uninstall = undefined
+    }
+    return this.uninstall
+  }
+
+  /**
+   * Show the cursor and leave raw mode, which spinners and prompts may have left
+   */
+  restoreTerminal(): void {
+    if ((this.output as { isTTY?: boolean }).isTTY) {
+      this.output.write(cursor.show)
+    }
+    if ((this.input as { isRaw?: boolean }).isRaw) {
+      setRawMode(this.input, false)
+    }
+  }
+
+  /**
+   * Abort the `signal`, wait for running tasks, run the cleanup callbacks and exit,
+   * or exit immediately when a shutdown is already in progress
+   * @param exitCode Exit code of the process, unless a task sets `process.exitCode` while shutting down
+   */
+  async shutdown(exitCode = 0): Promise<void> {
+    if (this.isShuttingDown) {
+      this.exit(exitCode)
+      return
+    }
+    this.isShuttingDown = true
+    this.controller.abort()
+    const initialExitCode = process.exitCode
+
+    if (this.tasks.size > 0) {
+      process.stderr.write(`\n${style.dim(t('shutdown.stopping'))}\n`)
+      await Promise.allSettled(this.tasks)
+    }
+    await Promise.all(this.runCleanups())
+
+    this.restoreTerminal()
+    // e.g. the exit code of a child process the interrupted action waited for
+    process.exit(process.exitCode !== undefined && process.exitCode !== initialExitCode ? Number(process.exitCode) : exitCode)
+  }
+
+  /**
+   * Exit immediately, running the cleanup callbacks without awaiting them
+   * @param exitCode Exit code of the process
+   */
+  exit(exitCode = 0): void {
+    this.controller.abort()
+    this.runCleanups()
+    this.restoreTerminal()
+    process.exit(exitCode)
+  }
+
+  /**
+   * Run the cleanup callbacks newest first, printing their errors
+   */
+  private runCleanups(): Promise<void>[] {
+    const report = (error: unknown) => {
+      process.stderr.write(`${style.red(t('prefix.error'))} ${error instanceof Error ? error.message : String(error)}\n`)
+    }
+    return this.callbacks.splice(0).reverse().map((callback) => {
+      try {
+        return Promise.resolve(callback()).catch(report)
+      }
+      catch (error) {
+        report(error)
+        return Promise.resolve()
+      }
+    })
+  }
+}
+
+/**
+ * The shutdown manager of the process, installed by `cli.run()`
+ */
+export const shutdown: ShutdownManager = new ShutdownManager()
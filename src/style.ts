@@ -257,10 +257,20 @@ export function panel(options: { title?: string, content: string, borderColor?:
   console.log(`╚${'═'.repeat(innerWidth)}╝`)
 }
 
-export function table(data: string[][], options?: { border?: boolean, header?: boolean, align?: ('left' | 'right' | 'center')[] }): void {
-  // Simple implementation for demonstration
+interface TableOptions {
+  border?: boolean
+  header?: boolean
+  align?: ('left' | 'right' | 'center')[]
+}
+
+/**
+ * Render rows as a table, the first row is the header when `header` is set
+ */
+export function formatTable(data: string[][], options?: TableOptions): string {
   if (!data || data.length === 0)
-    return
+    return ''
+
+  const lines: string[] = []
 
   // Calculate column widths
   const colWidths: number[] = Array.from({ length: data[0].length }, () => 0)
@@ -272,29 +282,29 @@ export function table(data: string[][], options?: { border?: boolean, header?: b
 
   // Draw top border
   if (options?.border) {
-    console.log(`┌${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┬')}┐`)
+    lines.push(`┌${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┬')}┐`)
   }
 
   // Draw header
   if (options?.header && data.length > 0) {
-    console.log(
+    lines.push(
       (options.border ? '│ ' : '')
       + data[0].map((cell: string, i: number) => `${cell}${' '.repeat(colWidths[i] - String(cell).length)}`).join(' │ ')
       + (options.border ? ' │' : ''),
     )
 
     if (options.border) {
-      console.log(`├${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┼')}┤`)
+      lines.push(`├${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┼')}┤`)
     }
     else {
-      console.log(`${colWidths.map((w: number) => '─'.repeat(w)).join('─┼─')}`)
+      lines.push(`${colWidths.map((w: number) => '─'.repeat(w)).join('─┼─')}`)
     }
   }
 
   // Draw data rows
   const startRow = options?.header ? 1 : 0
   for (let r = startRow; r < data.length; r++) {
-    console.log(
+    lines.push(
       (options?.border ? '│ ' : '')
       + data[r].map((cell: string, i: number) => `${cell}${' '.repeat(colWidths[i] - String(cell).length)}`).join(' │ ')
       + (options?.border ? ' │' : ''),
@@ -303,6 +313,15 @@ export function table(data: string[][], options?: { border?: boolean, header?: b
 
   // Draw bottom border
   if (options?.border) {
-    console.log(`└${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┴')}┘`)
+    lines.push(`└${colWidths.map((w: number) => '─'.repeat(w + 2)).join('┴')}┘`)
   }
+
+  return lines.join('\n')
+}
+
+export function table(data: string[][], options?: TableOptions): void {
+  if (!data || data.length === 0)
+    return
+
+  console.log(formatTable(data, options))
 }
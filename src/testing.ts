@@ -1,4 +1,5 @@
 import type { CLI } from './CLI'
+import type { DeprecatedUsage } from './utils'
 import { Buffer } from 'node:buffer'
 import fs from 'node:fs/promises'
 import os from 'node:os'
@@ -6,6 +7,7 @@ import path from 'node:path'
 import process from 'node:process'
 import { MockReadable, MockWritable } from '../test/utils'
 import { cli } from './CLI'
+import { formatDeprecation, splitArgs } from './utils'
 
 export interface TestContext {
   stdout: MockWritable
@@ -230,6 +232,70 @@ export async function execCommand(
   }
 }
 
+export interface ScriptDeprecatedUsage extends DeprecatedUsage {
+  /** The invocation using it */
+  script: string
+}
+
+/**
+ * Split a script into its commands, and each command into words
+ */
+function splitScript(script: string): string[][] {
+  return script
+    .split(/\r?\n|&&|\|\||[;|]/)
+    .map(splitArgs)
+}
+
+/**
+ * Find the deprecated commands and options used by invocations of a CLI in scripts,
+ * e.g. the `scripts` of a `package.json` or the lines of a shell script
+ */
+export function findDeprecatedUsages(
+  cliInstance: CLI,
+  scripts: string | string[] | Record<string, string>,
+): ScriptDeprecatedUsage[] {
+  const usages: ScriptDeprecatedUsage[] = []
+  const { deprecationWarnings } = cliInstance.config
+  cliInstance.config.deprecationWarnings = false
+
+  try {
+    for (const script of typeof scripts === 'string' ? [scripts] : Object.values(scripts)) {
+      for (const words of splitScript(script)) {
+        const index = words.findIndex(word => word === cliInstance.name || word.endsWith(`/${cliInstance.name}`))
+        if (index === -1) {
+          continue
+        }
+        try {
+          cliInstance.parse(['node', cliInstance.name, ...words.slice(index + 1)], { run: false })
+        }
+        catch {
+          // Invalid values don't hide the deprecations found before validation
+        }
+        usages.push(...cliInstance.getDeprecatedUsages().map(usage => ({ ...usage, script: words.join(' ') })))
+      }
+    }
+  }
+  finally {
+    cliInstance.config.deprecationWarnings = deprecationWarnings
+  }
+  return usages
+}
+
+/**
+ * Throw when scripts still use deprecated commands or options of a CLI
+ */
+export function assertNoDeprecatedUsages(
+  cliInstance: CLI,
+  scripts: string | string[] | Record<string, string>,
+): void {
+  const usages = findDeprecatedUsages(cliInstance, scripts)
+  if (usages.length > 0) {
+    throw new Error(
+      `Found deprecated usages:\n${usages.map(usage => `  ${usage.script}: ${formatDeprecation(usage)}`).join('\n')}`,
+    )
+  }
+}
+
 /**
  * Response map for mocking prompts
  */
@@ -1,5 +1,6 @@
 import type Option from './Option'
 import process from 'node:process'
+import { t } from './i18n'
 
 export function removeBrackets(v: string): string {
   return v.replace(/[<[].+/, '').trim()
@@ -44,23 +45,53 @@ export function findAllBrackets(v: string): {
   return res
 }
 
+/**
+ * Check the args declared in a command name: brackets are closed,
+ * required args come before optional ones and only the last arg is variadic
+ * @param rawName Raw command name, e.g. `deploy <env> [...targets]`
+ */
+export function checkArgsSyntax(rawName: string): void {
+  const words = rawName.split(' ').filter(Boolean)
+  let optional: string | undefined
+  for (const [index, word] of words.entries()) {
+    if (!/[<>[\]]/.test(word)) {
+      continue
+    }
+    if (!/^(?:<[^<>[\]]+>|\[[^<>[\]]+\])$/.test(word)) {
+      throw new ClappError(t('errors.invalidArgument', { name: word, command: rawName }))
+    }
+    if (word.startsWith('<') && optional) {
+      throw new ClappError(t('errors.requiredAfterOptional', { name: word, optional, command: rawName }))
+    }
+    if (word.slice(1).startsWith('...') && index < words.length - 1) {
+      throw new ClappError(t('errors.variadicNotLast', { name: word, command: rawName }))
+    }
+    if (word.startsWith('[')) {
+      optional = word
+    }
+  }
+}
+
 interface MriOptions {
   alias: {
     [k: string]: string[]
   }
   boolean: string[]
+  string: string[]
 }
 
 export function getMriOptions(options: Option[]): MriOptions {
-  const result: MriOptions = { alias: {}, boolean: [] }
+  const result: MriOptions = { alias: {}, boolean: [], string: [] }
 
   for (const [index, option] of options.entries()) {
     // We do not set default values in mri options
     // Since its type (typeof) will be used to cast parsed arguments.
     // Which mean `--foo foo` will be parsed as `{foo: true}` if we have `{default:{foo: true}}`
 
-    // Set alias
-    if (option.names.length > 1) {
+    // Values of repeatable options are merged across names by `mergeOptionValues()`,
+    // mri would keep the values of one name only
+    const names = option.config.shape ? option.names : [option.names[0]]
+    if (!option.config.shape && option.names.length > 1) {
       result.alias[option.names[0]] = option.names.slice(1)
     }
     // Set boolean
@@ -80,14 +111,77 @@ export function getMriOptions(options: Option[]): MriOptions {
         }
       }
       else {
-        result.boolean.push(option.names[0])
+        result.boolean.push(...names)
       }
     }
+    // Keep collected values as typed, they are coerced by the option schema
+    else if (option.config.shape === 'array' || option.config.shape === 'map') {
+      result.string.push(...names)
+    }
   }
 
   return result
 }
 
+/**
+ * Merge the values a repeatable option received under each of its names in the order
+ * they were passed, e.g. `['a', 'b']` for `--tag a -t b`
+ * @param argv Args before `--`
+ * @param parsed Parsed values by camelCased name
+ * @param option A repeatable option
+ */
+export function mergeOptionValues(argv: string[], parsed: Record<string, any>, option: Option): any[] {
+  const queues = new Map(option.names.map(name => [name, name in parsed ? toArray(parsed[name]) : []]))
+  const values: any[] = []
+  const take = (name: string) => {
+    const queue = queues.get(name)
+    if (queue && queue.length > 0) {
+      values.push(queue.shift())
+      return true
+    }
+    return false
+  }
+
+  for (const token of argv) {
+    if (token.startsWith('--')) {
+      take(camelcaseOptionName(token.slice(2).split('=')[0]))
+    }
+    else if (token.startsWith('-') && token.length > 1) {
+      for (const char of token.slice(1)) {
+        // The rest of a group like `-tvalue` is the value
+        if (take(char) && !option.isBoolean) {
+          break
+        }
+      }
+    }
+  }
+  for (const queue of queues.values()) {
+    values.push(...queue)
+  }
+  return values
+}
+
+/**
+ * Get the flags of an option as typed on the command line, e.g. `['-p', '--port']`
+ */
+export function getOptionFlags(option: Option): string[] {
+  return removeBrackets(option.rawName.replace(/\.\*/g, ''))
+    .split(',')
+    .map(flag => flag.trim())
+    .filter(Boolean)
+}
+
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Get the option name for a flag or name, e.g. `dryRun` for `--dry-run`
+ */
+export function normalizeOptionName(name: string): string {
+  return camelcaseOptionName(name.replace(/^-{1,2}/, ''))
+}
+
 export function findLongest(arr: string[]): string {
   return arr.sort((a, b) => {
     return a.length > b.length ? -1 : 1
@@ -117,7 +211,8 @@ export function setDotProp(
     x = t[keys[i]]
     t = t[keys[i]]
       = i === length - 1
-        ? val
+        // Merge records, e.g. `--define.a 1 --define b=2` for a `map` option
+        ? isPlainObject(x) && isPlainObject(val) ? { ...x, ...val } : val
         : x != null
           ? x
           : !!~keys[i + 1].indexOf('.') || !(+keys[i + 1] > -1)
@@ -126,6 +221,10 @@ export function setDotProp(
   }
 }
 
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
 export function setByType(
   obj: { [k: string]: any },
   transforms: { [k: string]: any },
@@ -143,6 +242,262 @@ export function setByType(
   }
 }
 
+/**
+ * How the values of a repeated option are collected: `array` always gives an array,
+ * `count` the number of times a flag is passed (`-vvv`) and `map` a record of `key=value` pairs
+ */
+export type OptionShape = 'array' | 'count' | 'map'
+
+/**
+ * Whether a parsed value stands for a value option passed without its value
+ */
+export function isMissingValue(value: unknown): boolean {
+  return value === true || value === ''
+}
+
+/**
+ * Collect a parsed option value into its shape
+ * @param value Parsed value, repeated options are arrays
+ * @param shape Option shape
+ * @param label Option label for error messages
+ */
+export function shapeOptionValue(value: any, shape: OptionShape, label: string): any {
+  if (shape === 'count') {
+    if (typeof value === 'number' || typeof value === 'string') {
+      return Number(value)
+    }
+    return toArray(value).filter(item => item === true).length
+  }
+
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (shape === 'array') {
+    return toArray(value)
+  }
+
+  if (isPlainObject(value)) {
+    return value
+  }
+  const record: Record<string, any> = {}
+  for (const item of toArray(value)) {
+    if (isPlainObject(item)) {
+      Object.assign(record, item)
+    }
+    else if (isMissingValue(item)) {
+      throw new ClappError(t('errors.valueMissing', { label }))
+    }
+    else {
+      const index = String(item).indexOf('=')
+      if (index < 1) {
+        throw new ClappError(t('errors.notKeyValue', { label, value: item }))
+      }
+      record[String(item).slice(0, index)] = String(item).slice(index + 1)
+    }
+  }
+  return record
+}
+
+/**
+ * Built-in value types, either by name or by constructor (`Number`, `String`, `Boolean`)
+ */
+export type ValueType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | StringConstructor
+  | NumberConstructor
+  | BooleanConstructor
+
+/**
+ * Declarative validation and coercion for option and argument values
+ */
+export interface ValueSchema {
+  /** Coerce the raw value to this type */
+  type?: ValueType
+  /** Allowed values, checked after coercion */
+  choices?: readonly any[]
+  /** Minimum numeric value (inclusive) */
+  min?: number
+  /** Maximum numeric value (inclusive) */
+  max?: number
+  /** Custom parser, runs after type coercion */
+  parse?: (value: any) => any
+}
+
+/**
+ * Normalize a value type to its name, e.g. `'number'` for `Number`
+ */
+export function getValueTypeName(type: ValueType): string {
+  if (type === String)
+    return 'string'
+  if (type === Number)
+    return 'number'
+  if (type === Boolean)
+    return 'boolean'
+  return type as string
+}
+
+/**
+ * Check if a schema declares anything to coerce or validate
+ */
+export function hasValueSchema(schema: ValueSchema): boolean {
+  return (typeof schema.type === 'string' || typeof schema.type === 'function')
+    || schema.choices !== undefined
+    || schema.min !== undefined
+    || schema.max !== undefined
+    || schema.parse !== undefined
+}
+
+/**
+ * Coerce and validate a parsed value against its schema
+ * @param value Parsed value
+ * @param schema Value schema
+ * @param label Name of the option or argument, used in error messages
+ */
+export function coerceValue(value: any, schema: ValueSchema, label: string): any {
+  if (Array.isArray(value)) {
+    return value.map(v => coerceValue(v, schema, label))
+  }
+
+  const type = schema.type === undefined ? undefined : getValueTypeName(schema.type)
+
+  if (type === 'number' || type === 'integer') {
+    const number = typeof value === 'number' ? value : Number(value)
+    if (value === '' || Number.isNaN(number)) {
+      throw new ClappError(t('errors.notNumber', { label, value }))
+    }
+    if (type === 'integer' && !Number.isInteger(number)) {
+      throw new ClappError(t('errors.notInteger', { label, value }))
+    }
+    value = number
+  }
+  else if (type === 'boolean') {
+    if (typeof value !== 'boolean') {
+      const normalized = String(value).toLowerCase()
+      if (['true', '1', 'yes', 'y'].includes(normalized)) {
+        value = true
+      }
+      else if (['false', '0', 'no', 'n'].includes(normalized)) {
+        value = false
+      }
+      else {
+        throw new ClappError(t('errors.notBoolean', { label, value }))
+      }
+    }
+  }
+  else if (type === 'string') {
+    value = String(value)
+  }
+
+  if (schema.parse) {
+    try {
+      value = schema.parse(value)
+    }
+    catch (error: any) {
+      if (error instanceof ClappError) {
+        throw error
+      }
+      throw new ClappError(t('errors.invalid', { label, reason: error?.message ?? error }))
+    }
+  }
+
+  if (schema.choices && !schema.choices.includes(value)) {
+    throw new ClappError(
+      t('errors.notChoice', { label, choices: schema.choices.map(choice => `\`${choice}\``).join(', '), value }),
+    )
+  }
+
+  if (schema.min !== undefined && value < schema.min) {
+    throw new ClappError(t('errors.belowMin', { label, min: schema.min, value }))
+  }
+
+  if (schema.max !== undefined && value > schema.max) {
+    throw new ClappError(t('errors.aboveMax', { label, max: schema.max, value }))
+  }
+
+  return value
+}
+
+/**
+ * Describe the choices and range of a schema for help output, e.g. `(choices: a, b)`
+ */
+export function describeValueSchema(schema: ValueSchema): string {
+  const parts: string[] = []
+  if (schema.choices) {
+    parts.push(t('help.choices', { choices: schema.choices.join(', ') }))
+  }
+  if (schema.min !== undefined && schema.max !== undefined) {
+    parts.push(t('help.range', { min: schema.min, max: schema.max }))
+  }
+  else if (schema.min !== undefined) {
+    parts.push(t('help.min', { min: schema.min }))
+  }
+  else if (schema.max !== undefined) {
+    parts.push(t('help.max', { max: schema.max }))
+  }
+  return parts.length > 0 ? `(${parts.join(', ')})` : ''
+}
+
+/**
+ * Edit distance between two strings, counting a swap of adjacent characters as one edit
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = []
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i]
+  }
+  for (let j = 0; j <= b.length; j++) {
+    d[0][j] = j
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1, // deletion
+        d[i][j - 1] + 1, // insertion
+        d[i - 1][j - 1] + cost, // substitution
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1) // transposition
+      }
+    }
+  }
+
+  return d[a.length][b.length]
+}
+
+/**
+ * Find the candidates closest to a mistyped input, best match first
+ * @param input Mistyped input
+ * @param candidates Known values
+ * @param limit Maximum number of suggestions
+ */
+export function findSuggestions(input: string, candidates: string[], limit = 3): string[] {
+  const maxDistance = Math.max(1, Math.floor(input.length * 0.4))
+
+  return [...new Set(candidates)]
+    .map(candidate => ({ candidate, distance: editDistance(input, candidate) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+/**
+ * Format suggestions to append to an error message, empty when there are none
+ */
+export function formatSuggestions(suggestions: string[]): string {
+  if (suggestions.length === 0) {
+    return ''
+  }
+  const list = suggestions.map(suggestion => `\`${suggestion}\``).join(', ')
+  return `\n${t('errors.didYouMean', { count: suggestions.length, suggestions: list })}`
+}
+
 export function getFileName(input: string): string {
   const m = /([^\\/]+)$/.exec(input)
   return m ? m[1] : ''
@@ -159,10 +514,79 @@ export function camelcaseOptionName(name: string): string {
     .join('.')
 }
 
+/**
+ * Split a command line into words, removing the quotes around quoted words,
+ * e.g. `['deploy', 'my app']` for `deploy "my app"`
+ */
+export function splitArgs(line: string): string[] {
+  return (line.match(/"[^"]*"|'[^']*'|\S+/g) || []).map(word => word.replace(/^(["'])(.*)\1$/, '$2'))
+}
+
+export interface DeprecationOptions {
+  /** Command or option to use instead, option values are forwarded to it */
+  replacement?: string
+  /** Version the command or option will be removed in */
+  removeIn?: string
+}
+
+/**
+ * A deprecated command or option used in a parsed invocation
+ */
+export interface DeprecatedUsage extends DeprecationOptions {
+  type: 'command' | 'option'
+  /** Command name or option flag, e.g. `--out-dir` */
+  name: string
+  /** `true` or a deprecation message */
+  deprecated: boolean | string
+}
+
+/**
+ * Describe a deprecated usage, e.g.
+ * ``option `--out` is deprecated and will be removed in 3.0, use `--out-dir` instead``
+ */
+export function formatDeprecation(usage: DeprecatedUsage): string {
+  let message = t(`deprecation.${usage.type}`, { name: usage.name })
+  if (usage.removeIn) {
+    message += t('deprecation.removeIn', { version: usage.removeIn })
+  }
+  if (usage.replacement) {
+    message += t('deprecation.replacement', { replacement: usage.replacement })
+  }
+  if (typeof usage.deprecated === 'string') {
+    message += t('deprecation.reason', { reason: t(usage.deprecated) })
+  }
+  return message
+}
+
+/**
+ * Where a parse error is in the parsed argv, see `cli.argv`
+ */
+export interface ArgvLocation {
+  /** Index of the offending token, the length of argv when something is missing at the end */
+  index: number
+  /** Start and end offset of the offending part of the token */
+  span: [number, number]
+}
+
+export interface ClappErrorOptions {
+  location?: ArgvLocation
+  /** How to fix the error */
+  hint?: string
+}
+
 export class ClappError extends Error {
-  constructor(message: string) {
+  /** Exit code used by `cli.run()` when this error is thrown */
+  exitCode = 2
+  /** Where the error is in argv, set for parse errors */
+  location?: ArgvLocation
+  /** How to fix the error */
+  hint?: string
+
+  constructor(message: string, options: ClappErrorOptions = {}) {
     super(message)
     this.name = this.constructor.name
+    this.location = options.location
+    this.hint = options.hint
     if (typeof Error.captureStackTrace === 'function') {
       Error.captureStackTrace(this, this.constructor)
     }
@@ -172,6 +596,16 @@ export class ClappError extends Error {
   }
 }
 
+/**
+ * Get the process exit code for an error
+ *
+ * Uses the `exitCode` of the error when set, `1` otherwise.
+ */
+export function getExitCode(error: unknown): number {
+  const exitCode = (error as { exitCode?: unknown } | undefined)?.exitCode
+  return typeof exitCode === 'number' ? exitCode : 1
+}
+
 // Thank you to
 //  https://github.com/sindresorhus/is-unicode-supported/blob/main/index.js
 export function isUnicodeSupported(): boolean {
@@ -1,9 +1,11 @@
 import type { Buffer } from 'node:buffer'
 import type { Key } from 'node:readline'
 import type { Readable, Writable } from 'node:stream'
+import os from 'node:os'
 import process, { stdin, stdout } from 'node:process'
 import * as readline from 'node:readline'
 import { ReadStream, WriteStream } from 'node:tty'
+import { shutdown } from '../shutdown'
 import { cursor } from '../utils'
 import { isActionKey } from './settings'
 
@@ -37,7 +39,7 @@ export function block({
   output = stdout,
   overwrite = true,
   hideCursor = true,
-}: BlockOptions = {}) {
+}: BlockOptions = {}): () => void {
   const rl = readline.createInterface({
     input,
     output,
@@ -49,13 +51,14 @@ export function block({
   if (input instanceof ReadStream && input.isTTY) {
     input.setRawMode(true)
   }
+  const removeCleanup = shutdown.onCleanup(unblock)
 
   const clear = (data: Buffer, { name, sequence }: Key) => {
     const str = String(data)
     if (isActionKey([str, name, sequence], 'cancel')) {
-      if (hideCursor)
-        output.write(cursor.show)
-      process.exit(0)
+      // Ctrl+C doesn't raise SIGINT in raw mode
+      unblock()
+      shutdown.exit(128 + os.constants.signals.SIGINT)
       return
     }
     if (!overwrite)
@@ -75,7 +78,8 @@ export function block({
 
   input.once('keypress', clear)
 
-  return (): void => {
+  function unblock(): void {
+    removeCleanup()
     input.off('keypress', clear)
 
     if (hideCursor)
@@ -90,6 +94,8 @@ export function block({
     rl.terminal = false
     rl.close()
   }
+
+  return unblock
 }
 
 export function getColumns(output: Writable): number {
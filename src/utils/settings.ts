@@ -1,3 +1,5 @@
+import type { Writable } from 'node:stream'
+
 const actions = ['up', 'down', 'left', 'right', 'space', 'enter', 'cancel'] as const
 export type Action = (typeof actions)[number]
 
@@ -5,10 +7,13 @@ export type Action = (typeof actions)[number]
 interface InternalClappSettings {
   actions: Set<Action>
   aliases: Map<string, Action>
+  /** Overrides of the translated `prompts.cancel` and `prompts.error` messages */
   messages: {
-    cancel: string
-    error: string
+    cancel?: string
+    error?: string
   }
+  /** Stream prompts, spinners and log messages write to when none is passed, `process.stdout` when unset */
+  output?: Writable
 }
 
 export const settings: InternalClappSettings = {
@@ -23,10 +28,7 @@ export const settings: InternalClappSettings = {
     // opinionated defaults!
     ['escape', 'cancel'],
   ]),
-  messages: {
-    cancel: 'Canceled',
-    error: 'Something went wrong',
-  },
+  messages: {},
 }
 
 export interface ClappSettings {
@@ -45,15 +47,21 @@ export interface ClappSettings {
   messages?: {
     /**
      * Custom message to display when a spinner is cancelled
-     * @default "Canceled"
+     * @default The `prompts.cancel` message of the locale, "Canceled"
      */
     cancel?: string
     /**
      * Custom message to display when a spinner encounters an error
-     * @default "Something went wrong"
+     * @default The `prompts.error` message of the locale, "Something went wrong"
      */
     error?: string
   }
+
+  /**
+   * Stream spinners and log messages write to when none is passed
+   * @default process.stdout
+   */
+  output?: Writable
 }
 
 export function updateSettings(updates: ClappSettings): void {
@@ -74,6 +82,10 @@ export function updateSettings(updates: ClappSettings): void {
     }
   }
 
+  if (updates.output !== undefined) {
+    settings.output = updates.output
+  }
+
   if (updates.messages !== undefined) {
     const messages = updates.messages
 
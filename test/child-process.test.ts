@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import process from 'node:process'
+import { ClappError, cli, runChildProcess, shutdown } from '../src'
+
+describe('runChildProcess', () => {
+  const exitCode = process.exitCode
+  const { isTTY } = process.stdin
+
+  afterEach(() => {
+    process.exitCode = exitCode
+    process.stdin.isTTY = isTTY
+    mock.restore()
+  })
+
+  it('resolves with the exit code of the child', async () => {
+    expect(await runChildProcess(process.execPath, ['-e', 'process.exit(3)'])).toBe(3)
+    expect(process.exitCode).toBe(3)
+  })
+
+  it('passes env to the child', async () => {
+    const code = await runChildProcess(process.execPath, ['-e', 'process.exit(Number(process.env.CODE))'], { env: { CODE: '5' } })
+    expect(code).toBe(5)
+  })
+
+  it('rejects when the command does not exist', async () => {
+    const promise = runChildProcess('clapp-missing-command')
+    await expect(promise).rejects.toThrow(ClappError)
+    await expect(promise).rejects.toThrow('command `clapp-missing-command` not found')
+  })
+
+  it('leaves Ctrl+C to the child under `run()`', async () => {
+    process.stdin.isTTY = false
+    const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit)
+    const ready = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'clapp-child-')), 'ready')
+    const script = [
+      `process.on('SIGINT', () => process.exit(0))`,
+      `require('node:fs').writeFileSync(${JSON.stringify(ready)}, '')`,
+      `setInterval(() => {}, 1000)`,
+    ].join('\n')
+
+    const app = cli('app')
+    app.command('exec', 'Run a program').passThrough().action(() => runChildProcess(process.execPath, ['-e', script]))
+    const run = app.run(['node', 'bin', 'exec'])
+
+    while (!fs.existsSync(ready)) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    process.emit('SIGINT', 'SIGINT')
+
+    expect(await run).toBe(0)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(shutdown.isShuttingDown).toBe(false)
+    expect(process.exitCode).toBe(0)
+    expect(exit).not.toHaveBeenCalled()
+    fs.rmSync(path.dirname(ready), { recursive: true })
+  })
+
+  it('doesn\'t forward Ctrl+C from a terminal, which sent it to the child already', async () => {
+    process.stdin.isTTY = true
+    const ready = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'clapp-child-')), 'ready')
+    const script = [
+      `let interrupts = 0`,
+      `process.on('SIGINT', () => interrupts++)`,
+      `require('node:fs').writeFileSync(${JSON.stringify(ready)}, '')`,
+      `setTimeout(() => process.exit(10 + interrupts), 200)`,
+    ].join('\n')
+
+    const run = runChildProcess(process.execPath, ['-e', script])
+    while (!fs.existsSync(ready)) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    process.emit('SIGINT', 'SIGINT')
+
+    expect(await run).toBe(10)
+    expect(shutdown.isShuttingDown).toBe(false)
+    fs.rmSync(path.dirname(ready), { recursive: true })
+  })
+})
@@ -0,0 +1,829 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import process from 'node:process'
+import { cli } from '../src/CLI'
+import { addMessages, setLocale } from '../src/i18n'
+import { assertNoDeprecatedUsages, cleanupTestFS, createTestFS } from '../src/testing'
+import { argv, MockReadable, MockWritable } from './utils'
+
+describe('cli', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  describe('nested commands', () => {
+    it('matches the longest command prefix', () => {
+      const app = cli('app')
+      app.command('db', 'Database commands')
+      app.command('db migrate [dir]', 'Run migrations')
+      app.command('db migrate fresh', 'Drop and migrate')
+
+      app.parse(argv('db', 'migrate', 'fresh'), { run: false })
+      expect(app.matchedCommand?.name).toBe('db migrate fresh')
+      expect(app.matchedCommandName).toBe('db migrate fresh')
+      expect(app.args).toEqual([])
+
+      app.parse(argv('db', 'migrate', 'schema'), { run: false })
+      expect(app.matchedCommand?.name).toBe('db migrate')
+      expect(app.args).toEqual(['schema'])
+
+      app.parse(argv('db'), { run: false })
+      expect(app.matchedCommand?.name).toBe('db')
+    })
+
+    it('matches aliases within the parent', () => {
+      const app = cli('app')
+      app.command('db migrate', 'Run migrations').alias('m')
+
+      app.parse(argv('db', 'm'), { run: false })
+      expect(app.matchedCommand?.name).toBe('db migrate')
+      expect(app.matchedCommandName).toBe('db m')
+    })
+
+    it('inherits options from parent commands', () => {
+      const app = cli('app')
+      app.command('db', 'Database commands').option('--connection <name>', 'Connection name')
+      const action = mock(() => {})
+      app.command('db migrate', 'Run migrations').action(action)
+
+      app.parse(argv('db', 'migrate', '--connection', 'mysql'))
+      expect(action).toHaveBeenCalledWith(expect.objectContaining({ connection: 'mysql' }))
+    })
+
+    it('lists child commands in parent help', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const app = cli('app')
+      app.command('db', 'Database commands').option('--connection <name>', 'Connection name')
+      app.command('db migrate', 'Run migrations')
+      app.command('db seed', 'Seed the database')
+      app.command('serve', 'Start the server')
+      app.help()
+
+      app.parse(argv('--help'))
+      const globalHelp = log.mock.calls[0][0] as string
+      expect(globalHelp).toContain('serve')
+      expect(globalHelp).not.toContain('db migrate')
+
+      app.parse(argv('db', '--help'))
+      const dbHelp = log.mock.calls[1][0] as string
+      expect(dbHelp).toContain('db migrate')
+      expect(dbHelp).toContain('db seed')
+      expect(dbHelp).not.toContain('serve')
+
+      app.parse(argv('db', 'migrate', '--help'))
+      const migrateHelp = log.mock.calls[2][0] as string
+      expect(migrateHelp).toContain('--connection <name>')
+    })
+  })
+
+  describe('coercion', () => {
+    it('coerces option values by type', () => {
+      const app = cli('app')
+      app.option('--port <port>', 'Port', { type: 'integer', min: 1, max: 65535 })
+      app.option('--ratio <ratio>', 'Ratio', { type: Number })
+      app.option('--name <name>', 'Name', { type: String })
+      app.option('--cache <cache>', 'Cache', { type: 'boolean' })
+
+      const { options } = app.parse(argv('--port', '8080', '--ratio', '0.5', '--name', '42', '--cache', 'no'))
+      expect(options.port).toBe(8080)
+      expect(options.ratio).toBe(0.5)
+      expect(options.name).toBe('42')
+      expect(options.cache).toBe(false)
+    })
+
+    it('throws a ClappError naming the flag', () => {
+      const app = cli('app')
+      app.option('--port <port>', 'Port', { type: 'integer', min: 1, max: 65535 })
+
+      expect(() => app.parse(argv('--port', 'abc'))).toThrow('option `--port <port>` must be a number, received `abc`')
+      expect(() => app.parse(argv('--port', '1.5'))).toThrow('option `--port <port>` must be an integer')
+      expect(() => app.parse(argv('--port', '70000'))).toThrow('option `--port <port>` must be at most 65535')
+    })
+
+    it('validates choices and custom parsers', () => {
+      const app = cli('app')
+      app.option('--env <env>', 'Environment', { choices: ['dev', 'prod'] })
+      app.option('--tags <tags>', 'Tags', { parse: (value: string) => value.split(',') })
+
+      expect(app.parse(argv('--tags', 'a,b')).options.tags).toEqual(['a', 'b'])
+      expect(() => app.parse(argv('--env', 'qa'))).toThrow('option `--env <env>` must be one of `dev`, `prod`, received `qa`')
+    })
+
+    it('coerces declared arguments', () => {
+      const app = cli('app')
+      const action = mock(() => {})
+      app.command('scale <replicas> [...ports]', 'Scale the service')
+        .argument('replicas', 'Number of replicas', { type: 'integer', min: 1 })
+        .argument('[...ports]', 'Ports to expose', { type: Number })
+        .action(action)
+
+      app.parse(argv('scale', '3', '80', '443'))
+      expect(action).toHaveBeenCalledWith(3, [80, 443], expect.anything())
+      expect(() => app.parse(argv('scale', '0'))).toThrow('argument `<replicas>` must be at least 1')
+    })
+
+    it('shows choices and ranges in help', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const app = cli('app')
+      app.option('--env <env>', 'Environment', { choices: ['dev', 'prod'], default: 'dev' })
+      app.option('--port <port>', 'Port', { type: 'integer', min: 1, max: 65535 })
+      app.help()
+
+      app.parse(argv('--help'))
+      const help = log.mock.calls[0][0] as string
+      expect(help).toContain('Environment (choices: dev, prod) (default: dev)')
+      expect(help).toContain('Port (range: 1..65535)')
+    })
+  })
+
+  describe('middleware', () => {
+    it('runs cli and command middleware in order around the action', async () => {
+      const calls: string[] = []
+      const app = cli('app')
+      app.use(async (_, next) => {
+        calls.push('cli:before')
+        await next()
+        calls.push('cli:after')
+      })
+      app.command('deploy', 'Deploy')
+        .beforeRun(() => {
+          calls.push('command:before')
+        })
+        .afterRun(() => {
+          calls.push('command:after')
+        })
+        .action(() => {
+          calls.push('action')
+        })
+
+      app.parse(argv('deploy'), { run: false })
+      await app.runMatchedCommand()
+      expect(calls).toEqual(['cli:before', 'command:before', 'action', 'command:after', 'cli:after'])
+    })
+
+    it('lets middleware mutate options and short-circuit', async () => {
+      const action = mock((options: any) => options.env)
+      const app = cli('app')
+      app.command('deploy', 'Deploy')
+        .option('--env <env>', 'Environment')
+        .beforeRun((context) => {
+          context.options.env = context.options.env || 'staging'
+        })
+        .action(action)
+
+      app.parse(argv('deploy'), { run: false })
+      expect(await app.runMatchedCommand()).toBe('staging')
+
+      app.use((context) => {
+        if (!context.options.token)
+          return 'unauthorized'
+      })
+      expect(await app.runMatchedCommand()).toBe('unauthorized')
+      expect(action).toHaveBeenCalledTimes(1)
+    })
+
+    it('runs afterRun hooks when the action throws', async () => {
+      const teardown = mock((_error: unknown) => {})
+      const app = cli('app')
+      app.afterRun(context => teardown(context.error))
+      app.command('fail', 'Fail').action(async () => {
+        throw new Error('boom')
+      })
+
+      app.parse(argv('fail'), { run: false })
+      await expect(app.runMatchedCommand()).rejects.toThrow('boom')
+      expect(teardown).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }))
+    })
+
+    it('reports errors of actions run through middleware', async () => {
+      const write = spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const unhandled = mock((_reason: unknown) => {})
+      process.on('unhandledRejection', unhandled)
+      const exitCode = process.exitCode
+      const app = cli('app', { exitProcess: false })
+      app.beforeRun(() => {})
+      app.command('fail', 'Fail').action(() => {
+        throw new Error('sync boom')
+      })
+
+      expect(() => app.parse(argv('fail'))).not.toThrow()
+      await new Promise(resolve => setTimeout(resolve, 0))
+      process.off('unhandledRejection', unhandled)
+      expect(unhandled).not.toHaveBeenCalled()
+      expect(write.mock.calls[0][0]).toContain('sync boom')
+      expect(process.exitCode).toBe(1)
+
+      await expect(app.run(argv('fail'))).rejects.toThrow('sync boom')
+      process.exitCode = exitCode
+    })
+  })
+
+  describe('run', () => {
+    afterEach(() => {
+      process.exitCode = 0
+    })
+
+    it('resolves with the awaited action result', async () => {
+      const app = cli('app')
+      app.command('sum <a> <b>', 'Add numbers').action(async (a: string, b: string) => Number(a) + Number(b))
+
+      expect(await app.run(argv('sum', '1', '2'))).toBe(3)
+    })
+
+    it('prints ClappErrors to stderr and sets the exit code', async () => {
+      const write = spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const app = cli('app', { exitProcess: false })
+      app.command('deploy <env>', 'Deploy').action(() => {})
+      app.help()
+
+      await expect(app.run(argv('deploy'))).rejects.toThrow('missing required args')
+      expect(process.exitCode).toBe(2)
+      expect(write.mock.calls[0][0]).toContain('missing required args for command `deploy <env>`')
+      expect(write.mock.calls[0][0]).toContain('Run `app deploy --help` for usage.')
+    })
+
+    it('uses the exit code of other errors', async () => {
+      spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const app = cli('app', { exitProcess: false })
+      app.command('fail', 'Fail').action(async () => {
+        throw Object.assign(new Error('boom'), { exitCode: 3 })
+      })
+      app.command('crash', 'Crash').action(async () => {
+        throw new Error('crash')
+      })
+
+      await expect(app.run(argv('fail'))).rejects.toThrow('boom')
+      expect(process.exitCode).toBe(3)
+      await expect(app.run(argv('crash'))).rejects.toThrow('crash')
+      expect(process.exitCode).toBe(1)
+    })
+
+    it('exits the process by default', async () => {
+      spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const exit = spyOn(process, 'exit').mockImplementation((() => {}) as any)
+      const app = cli('app')
+      app.command('fail', 'Fail').action(() => {
+        throw new Error('boom')
+      })
+
+      await expect(app.run(argv('fail'))).rejects.toThrow('boom')
+      expect(exit).toHaveBeenCalledWith(1)
+    })
+  })
+
+  describe('suggestions', () => {
+    it('suggests the closest option', () => {
+      const app = cli('app')
+      app.option('--verbose', 'Verbose output')
+      app.command('build', 'Build').option('--dry-run', 'Dry run').action(() => {})
+
+      expect(() => app.parse(argv('build', '--dry-rn'))).toThrow('Unknown option `--dryRn`\nDid you mean `--dry-run`?')
+      expect(() => app.parse(argv('build', '--verbsoe'))).toThrow('Did you mean `--verbose`?')
+      expect(() => app.parse(argv('build', '--zzz'))).toThrow(/^Unknown option `--zzz`$/)
+    })
+
+    it('suggests the closest commands', () => {
+      const app = cli('app')
+      app.command('build', 'Build')
+      app.command('db migrate', 'Migrate')
+      app.command('serve', 'Serve').alias('dev')
+
+      expect(app.getCommandSuggestions(['biuld'])).toEqual(['build'])
+      expect(app.getCommandSuggestions(['db', 'migrat'])).toEqual(['db migrate'])
+      expect(app.getCommandSuggestions(['deb'])).toEqual(['dev'])
+    })
+
+    it('throws for unknown commands in strict mode', () => {
+      const app = cli('app', { strictCommands: true })
+      app.command('build', 'Build')
+
+      expect(() => app.parse(argv('biuld'))).toThrow('Unknown command `biuld`\nDid you mean `build`?')
+    })
+
+    it('emits command:* for unknown commands by default', () => {
+      const app = cli('app')
+      app.command('build', 'Build')
+      const listener = mock(() => {})
+      app.on('command:*', listener)
+
+      app.parse(argv('biuld'))
+      expect(listener).toHaveBeenCalled()
+    })
+  })
+
+  describe('env and config', () => {
+    afterEach(() => {
+      delete process.env.APP_TOKEN
+      delete process.env.APP_DRY_RUN
+      delete process.env.DEPLOY_REGION
+    })
+
+    it('reads options from env variables below argv', () => {
+      const app = cli('app', { envPrefix: 'app' })
+      app.option('--token <token>', 'API token')
+      app.option('--dry-run', 'Dry run')
+      app.option('--region <region>', 'Region', { env: 'DEPLOY_REGION', default: 'eu' })
+      process.env.APP_TOKEN = 'secret'
+      process.env.APP_DRY_RUN = '0'
+      process.env.DEPLOY_REGION = 'us'
+
+      app.parse(argv())
+      expect(app.options).toMatchObject({ token: 'secret', dryRun: false, region: 'us' })
+      expect(app.optionSources).toEqual({ token: 'env', dryRun: 'env', region: 'env' })
+
+      app.parse(argv('--token', 'abc'))
+      expect(app.options.token).toBe('abc')
+      expect(app.optionSources.token).toBe('argv')
+    })
+
+    it('layers config files below env variables', async () => {
+      const cwd = await createTestFS({
+        'package.json': JSON.stringify({ name: 'pkg', app: { token: 'pkg', region: 'pkg', port: 1 } }),
+        '.apprc': JSON.stringify({ region: 'rc' }),
+        'app.config.ts': 'export default { \'dry-run\': true }',
+      })
+      try {
+        const app = cli('app', { envPrefix: 'APP', configName: 'app' })
+        app.option('--token <token>', 'API token')
+        app.option('--region <region>', 'Region')
+        app.option('--dry-run', 'Dry run')
+        app.option('--port <port>', 'Port', { default: 3000 })
+        process.env.APP_TOKEN = 'env'
+
+        expect(await app.loadConfig(cwd)).toEqual({ token: 'pkg', region: 'rc', port: 1, dryRun: true })
+        app.parse(argv())
+        expect(app.options).toMatchObject({ token: 'env', region: 'rc', dryRun: true, port: 1 })
+        expect(app.optionSources).toEqual({ token: 'env', region: 'config', dryRun: 'config', port: 'config' })
+      }
+      finally {
+        await cleanupTestFS(cwd)
+      }
+    })
+
+    it('shows env bindings in help', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const app = cli('app', { envPrefix: 'APP' })
+      app.option('--token <token>', 'API token')
+      app.help()
+
+      app.parse(argv('--help'))
+      expect(log.mock.calls[0][0]).toContain('API token [env: APP_TOKEN]')
+      expect(log.mock.calls[0][0]).not.toContain('APP_HELP')
+    })
+  })
+
+  describe('option relations', () => {
+    function createCLI() {
+      const app = cli('app')
+      app.command('serve', 'Serve')
+        .option('--json', 'JSON output', { conflicts: 'pretty' })
+        .option('--pretty', 'Pretty output')
+        .option('--watch', 'Watch files', { implies: 'dev' })
+        .option('--dev', 'Development mode')
+        .option('--cert <path>', 'TLS certificate', { requires: '--key' })
+        .option('--key <path>', 'TLS key')
+        .action(options => options)
+      app.command('fetch', 'Fetch')
+        .option('--file <file>', 'From a file')
+        .option('--url <url>', 'From a URL')
+        .exactlyOneOf(['file', 'url'])
+        .action(options => options)
+      return app
+    }
+
+    it('rejects conflicting options', () => {
+      expect(() => createCLI().parse(argv('serve', '--json', '--pretty'))).toThrow('option `--json` cannot be used with `--pretty`')
+    })
+
+    it('sets implied options unless passed', () => {
+      const app = createCLI()
+      app.parse(argv('serve', '--watch'), { run: false })
+      expect(app.options.dev).toBe(true)
+
+      app.parse(argv('serve', '--watch', '--no-dev'), { run: false })
+      expect(app.options.dev).toBe(false)
+    })
+
+    it('requires dependent options', () => {
+      expect(() => createCLI().parse(argv('serve', '--cert', 'a.pem'))).toThrow('option `--cert` requires `--key`')
+      expect(() => createCLI().parse(argv('serve', '--cert', 'a.pem', '--key', 'a.key'))).not.toThrow()
+    })
+
+    it('checks option groups', () => {
+      expect(() => createCLI().parse(argv('fetch'))).toThrow('one of `--file`, `--url` is required')
+      expect(() => createCLI().parse(argv('fetch', '--file', 'a', '--url', 'b'))).toThrow('option `--file` cannot be used with `--url`')
+      expect(() => createCLI().parse(argv('fetch', '--url', 'b'))).not.toThrow()
+    })
+
+    it('shows relations in help', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const app = createCLI()
+      app.help()
+
+      app.parse(argv('serve', '--help'))
+      const help = log.mock.calls[0][0] as string
+      expect(help).toContain('JSON output (conflicts with --pretty)')
+      expect(help).toContain('Watch files (implies --dev)')
+      expect(help).toContain('TLS certificate (requires --key)')
+
+      app.parse(argv('fetch', '--help'))
+      expect(log.mock.calls[1][0]).toContain('From a file (cannot be used with --url, one is required)')
+    })
+  })
+
+  describe('interactive', () => {
+    function createCLI(isTTY: boolean) {
+      const input = new MockReadable()
+      Object.assign(input, { isTTY, setRawMode: () => {} })
+      const output = new MockWritable()
+      const app = cli('app', { exitProcess: false, interactive: true, promptInput: input, promptOutput: output })
+      const action = mock((..._args: any[]) => {})
+      app.command('deploy <env> [target]', 'Deploy')
+        .argument('env', 'Environment', { choices: ['staging', 'production'] })
+        .option('--token <token>', 'API token', { secret: true })
+        .action(action)
+      return { app, input, output, action }
+    }
+
+    const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+    it('prompts for missing args and option values on a TTY', async () => {
+      const { app, input, action } = createCLI(true)
+      const result = app.run(argv('deploy', '--token'))
+
+      await tick()
+      input.emit('keypress', '', { name: 'down' })
+      input.emit('keypress', '', { name: 'return' })
+      await tick()
+      for (const char of 'abc') {
+        input.emit('keypress', char, { name: char })
+      }
+      input.emit('keypress', '', { name: 'return' })
+      await result
+
+      expect(action.mock.calls[0][0]).toBe('production')
+      expect(action.mock.calls[0][2].token).toBe('abc')
+    })
+
+    it('translates prompt messages', async () => {
+      addMessages('de', { Environment: 'Umgebung' })
+      setLocale('de')
+      try {
+        const { app, input, output, action } = createCLI(true)
+        const result = app.run(argv('deploy', '--token', 'abc'))
+
+        await tick()
+        input.emit('keypress', '', { name: 'return' })
+        await result
+
+        expect(output.buffer.join('')).toContain('Umgebung')
+        expect(action.mock.calls[0][0]).toBe('staging')
+      }
+      finally {
+        setLocale(undefined)
+      }
+    })
+
+    it('keeps failing without a TTY', async () => {
+      spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const { app, action } = createCLI(false)
+      await expect(app.run(argv('deploy'))).rejects.toThrow('missing required args for command `deploy <env> [target]`')
+      expect(action).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('lazy commands', () => {
+    /**
+     * @param count Number of lazy commands
+     * @param cost Milliseconds each module takes to load, like evaluating a real import
+     */
+    function createCLI(count: number, cost = 0) {
+      const app = cli('app')
+      const loaders = Array.from({ length: count }, (_, index) => {
+        const loader = mock(async () => {
+          const end = performance.now() + cost
+          while (performance.now() < end) {
+            // Busy wait, module evaluation blocks startup
+          }
+          return { default: (name: string, options: any) => `${index}:${name}:${options.force}` }
+        })
+        app.command(`command${index} <name>`, `Command ${index}`)
+          .option('--force', 'Force')
+          .lazy(loader)
+        return loader
+      })
+      app.help()
+      app.version('1.0.0')
+      return { app, loaders }
+    }
+
+    it('imports only the matched command module', async () => {
+      const { app, loaders } = createCLI(3)
+      const { args } = app.parse(argv('command1', 'foo', '--force'), { run: false })
+      expect(args).toEqual(['foo'])
+      expect(await app.runMatchedCommand()).toBe('1:foo:true')
+      expect(loaders.map(loader => loader.mock.calls.length)).toEqual([0, 1, 0])
+    })
+
+    it('loads the action inside middleware', async () => {
+      const { app, loaders } = createCLI(1)
+      app.beforeRun(({ options }) => {
+        options.force = 'yes'
+      })
+      expect(await app.run(argv('command0', 'bar'))).toBe('0:bar:yes')
+      expect(loaders[0]).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects modules without an action', async () => {
+      const app = cli('app')
+      app.command('broken', 'Broken').lazy(async () => ({}))
+      app.parse(argv('broken'), { run: false })
+      await expect(app.runMatchedCommand()).rejects.toThrow('module of command `broken` does not export an action')
+    })
+
+    it('prints version and help without loading any module', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const { app, loaders } = createCLI(80)
+      app.parse(argv('--version'))
+      app.parse(argv('command79', '--help'))
+
+      expect(log).toHaveBeenCalledTimes(2)
+      expect(loaders.every(loader => loader.mock.calls.length === 0)).toBe(true)
+    })
+
+    it('starts up faster than loading every module', () => {
+      spyOn(console, 'log').mockImplementation(() => {})
+      const startup = (eager: boolean) => {
+        const start = performance.now()
+        const { app, loaders } = createCLI(80, 1)
+        if (eager) {
+          loaders.forEach(loader => loader())
+        }
+        app.parse(argv('--version'))
+        return { elapsed: performance.now() - start, loaders }
+      }
+
+      const eager = startup(true)
+      const lazy = startup(false)
+      expect(lazy.loaders.every(loader => loader.mock.calls.length === 0)).toBe(true)
+      // Relative to loading every module, so the speed of the machine doesn't matter
+      expect(lazy.elapsed).toBeLessThan(eager.elapsed / 4)
+    })
+  })
+
+  describe('option shapes', () => {
+    function createCLI() {
+      const app = cli('app')
+      app.option('--tag <tag>', 'Tags', { shape: 'array' })
+      app.option('--port <port>', 'Ports', { shape: 'array', type: Number })
+      app.option('-v, --verbose', 'Verbosity', { shape: 'count' })
+      app.option('-D, --define <pair>', 'Defines', { shape: 'map' })
+      return app
+    }
+
+    it('always collects arrays', () => {
+      expect(createCLI().parse(argv('--tag', 'a')).options.tag).toEqual(['a'])
+      expect(createCLI().parse(argv('--tag', '1', '--tag', 'b')).options.tag).toEqual(['1', 'b'])
+      expect(createCLI().parse(argv('--port', '80', '--port', '443')).options.port).toEqual([80, 443])
+      expect(createCLI().parse(argv()).options.tag).toBeUndefined()
+    })
+
+    it('counts flags', () => {
+      expect(createCLI().parse(argv('-vvv')).options.verbose).toBe(3)
+      expect(createCLI().parse(argv('--verbose', '--verbose')).options.v).toBe(2)
+      expect(createCLI().parse(argv()).options.verbose).toBe(0)
+    })
+
+    it('merges values passed with short and long flags', () => {
+      const app = cli('app')
+      app.option('-t, --tag <tag>', 'Tags', { shape: 'array' })
+      app.option('-v, --verbose', 'Verbosity', { shape: 'count' })
+      app.option('-D, --define <pair>', 'Defines', { shape: 'map' })
+
+      const { options } = app.parse(argv('--tag', 'a', '-t', 'b', '--tag=c', '-D', 'a=1', '--define', 'b=2', '-vv', '--verbose'))
+      expect(options.tag).toEqual(['a', 'b', 'c'])
+      expect(options.t).toEqual(['a', 'b', 'c'])
+      expect(options.define).toEqual({ a: '1', b: '2' })
+      expect(options.D).toEqual({ a: '1', b: '2' })
+      expect(options.verbose).toBe(3)
+    })
+
+    it('merges key=value pairs into a record', () => {
+      const { options } = createCLI().parse(argv('--define', 'A=1', '--define', 'B=x=y', '--define.C', '3'))
+      expect(options.define).toEqual({ A: '1', B: 'x=y', C: 3 })
+      expect(() => createCLI().parse(argv('--define', 'A'))).toThrow('option `-D, --define <pair>` must be a key=value pair, received `A`')
+    })
+
+    it('reports missing values', () => {
+      const app = createCLI()
+      app.command('build', 'Build').action(() => {})
+      expect(() => app.parse(argv('build', '--tag'))).toThrow('option `--tag <tag>` value is missing')
+    })
+
+    it('shows shapes in help', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const app = createCLI()
+      app.help()
+      app.parse(argv('--help'))
+      const help = log.mock.calls[0][0] as string
+      expect(help).toContain('Tags (repeatable)')
+      expect(help).toContain('Verbosity (repeatable, counted)')
+      expect(help).toContain('Defines (repeatable, key=value)')
+    })
+  })
+
+  describe('positional args', () => {
+    it('rejects surplus args unless allowed', () => {
+      const app = cli('app')
+      app.command('deploy <env> [region]', 'Deploy').action(() => {})
+      app.command('copy <...files>', 'Copy').action(() => {})
+      app.command('exec <bin>', 'Exec').allowExcessArgs().action((bin, options) => [bin, options._])
+
+      app.parse(argv('deploy', 'prod', 'eu', 'extra'), { run: false })
+      expect(() => app.runMatchedCommand()).toThrow(
+        'too many args for command `deploy <env> [region]`, expected at most 2 args, received `extra`',
+      )
+      app.parse(argv('copy', 'a', 'b', 'c'), { run: false })
+      expect(() => app.runMatchedCommand()).not.toThrow()
+      app.parse(argv('exec', 'ls', 'src', 'test'), { run: false })
+      expect(app.runMatchedCommand()).toEqual(['ls', ['src', 'test']])
+    })
+
+    it('applies defaults to optional args', () => {
+      const app = cli('app')
+      app.command('serve [port] [...hosts]', 'Serve')
+        .argument('port', 'Port', { type: 'integer', default: '3000' })
+        .argument('hosts', 'Hosts', { default: 'localhost' })
+        .action((port, hosts) => [port, hosts])
+
+      app.parse(argv('serve'), { run: false })
+      expect(app.runMatchedCommand()).toEqual([3000, ['localhost']])
+      app.parse(argv('serve', '80', 'a', 'b'), { run: false })
+      expect(app.runMatchedCommand()).toEqual([80, ['a', 'b']])
+      expect(() => app.command('run <task>', 'Run').argument('task', 'Task', { default: 'build' })).toThrow(
+        'required argument `task` cannot have a default value in command `run <task>`',
+      )
+    })
+
+    it('validates the bracket syntax of command names', () => {
+      const app = cli('app')
+      expect(() => app.command('deploy <env', 'Deploy')).toThrow('invalid argument `<env` in command `deploy <env`')
+      expect(() => app.command('copy <...files> <dest>', 'Copy')).toThrow(
+        'variadic argument `<...files>` must be the last argument in command `copy <...files> <dest>`',
+      )
+      expect(() => app.command('move [from] <to>', 'Move')).toThrow(
+        'required argument `<to>` cannot follow optional argument `[from]` in command `move [from] <to>`',
+      )
+    })
+
+    it('lists described args in help', () => {
+      const app = cli('app')
+      const command = app.command('deploy <env> [region]', 'Deploy')
+        .argument('env', 'Target environment', { choices: ['dev', 'prod'] })
+        .argument('region', 'Region', { default: 'eu' })
+      expect(command.formatHelp()).toContain([
+        'Arguments:',
+        '  <env>     Target environment (choices: dev, prod)',
+        '  [region]  Region (default: eu)',
+      ].join('\n'))
+    })
+  })
+
+  describe('deprecations', () => {
+    function createCLI() {
+      const app = cli('app')
+      app.option('--out-dir <dir>', 'Output directory')
+      app.option('--out <dir>', 'Output directory')
+      app.globalCommand.findOption('--out')!.deprecated(undefined, { replacement: '--out-dir', removeIn: '3.0' })
+      app.command('build', 'Build').action((options) => {
+        return options.outDir
+      })
+      app.command('compile', 'Compile').deprecated('it only builds', { replacement: 'build' }).action(() => {})
+      return app
+    }
+
+    it('warns once and forwards values to the replacement', () => {
+      const write = spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const app = createCLI()
+
+      app.parse(argv('build', '--out', 'dist'), { run: false })
+      expect(app.runMatchedCommand()).toBe('dist')
+      app.parse(argv('build', '--out', 'lib'), { run: false })
+      expect(app.runMatchedCommand()).toBe('lib')
+      app.parse(argv('build', '--out', 'lib', '--out-dir', 'out'), { run: false })
+      expect(app.runMatchedCommand()).toBe('out')
+      app.parse(argv('compile'))
+
+      const warnings = write.mock.calls.map(([chunk]) => String(chunk))
+      expect(warnings).toHaveLength(2)
+      expect(warnings[0]).toContain('option `--out` is deprecated and will be removed in 3.0, use `--out-dir` instead')
+      expect(warnings[1]).toContain('command `compile` is deprecated, use `build` instead: it only builds')
+    })
+
+    it('finds deprecated usages in scripts', () => {
+      const write = spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const app = createCLI()
+
+      expect(() => assertNoDeprecatedUsages(app, { build: 'app build --out-dir dist && app build' })).not.toThrow()
+      expect(() => assertNoDeprecatedUsages(app, {
+        build: 'rm -rf dist && ./node_modules/.bin/app build --out "dist"',
+        legacy: 'app compile',
+      })).toThrow([
+        'Found deprecated usages:',
+        '  ./node_modules/.bin/app build --out dist: option `--out` is deprecated and will be removed in 3.0, use `--out-dir` instead',
+        '  app compile: command `compile` is deprecated, use `build` instead: it only builds',
+      ].join('\n'))
+      expect(write).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('pass-through', () => {
+    it('passes args after the command args through unparsed', () => {
+      const app = cli('app')
+      app.option('--verbose', 'Verbose')
+      app.command('exec <bin>', 'Run a program').passThrough().action((bin, options) => ({ bin, options }))
+
+      app.parse(argv('exec', '--verbose', 'docker', 'run', '-it', '--rm', 'img'), { run: false })
+      const { bin, options } = app.runMatchedCommand()
+      expect(bin).toBe('docker')
+      expect(options.verbose).toBe(true)
+      expect(options['--']).toEqual(['run', '-it', '--rm', 'img'])
+      expect(options.it).toBeUndefined()
+    })
+
+    it('drops a leading `--`', () => {
+      const app = cli('app')
+      app.command('run <script>', 'Run a script').passThrough().action((script, options) => [script, options['--']])
+
+      app.parse(argv('run', 'dev', '--', '--watch'), { run: false })
+      expect(app.runMatchedCommand()).toEqual(['dev', ['--watch']])
+    })
+
+    it('does not fail on unknown options after the command args', () => {
+      const app = cli('app')
+      app.command('exec <bin>', 'Run a program').passThrough().action((bin, options) => options['--'])
+
+      app.parse(argv('exec', 'ls', '-la', '--color=auto'), { run: false })
+      expect(app.runMatchedCommand()).toEqual(['-la', '--color=auto'])
+    })
+  })
+
+  describe('parse diagnostics', () => {
+    const createCLI = () => {
+      const app = cli('app', { exitProcess: false })
+      app.command('serve <dir>', 'Serve a directory')
+        .option('-p, --port <port>', 'Port', { type: 'number' })
+        .option('--host <host>', 'Host')
+        .action(() => {})
+      return app
+    }
+
+    const parseError = (app: ReturnType<typeof createCLI>, ...args: string[]) => {
+      try {
+        app.parse(argv(...args))
+      }
+      catch (error) {
+        return error as any
+      }
+      throw new Error('expected a parse error')
+    }
+
+    it('locates the offending token', () => {
+      const app = createCLI()
+
+      expect(parseError(app, 'serve', 'dist', '--port', 'abc').location).toEqual({ index: 3, span: [0, 3] })
+      expect(parseError(app, 'serve', 'dist', '-p=abc').location).toEqual({ index: 2, span: [3, 6] })
+      expect(parseError(app, 'serve', 'dist', '--host').location).toEqual({ index: 2, span: [0, 6] })
+      expect(parseError(app, 'serve', '--hots', 'x', 'dist').location).toEqual({ index: 1, span: [0, 6] })
+      expect(parseError(app, 'serve', '--port', '80', 'dist', 'extra').location).toEqual({ index: 4, span: [0, 5] })
+      expect(parseError(app, 'serve').location).toEqual({ index: 1, span: [0, 1] })
+    })
+
+    it('describes parse errors as structured objects', () => {
+      const app = createCLI()
+      const error = parseError(app, 'serve', 'dist', '--host')
+
+      expect(app.getDiagnostic(error)).toEqual({
+        message: 'option `--host <host>` value is missing',
+        name: 'app',
+        argv: ['serve', 'dist', '--host'],
+        index: 2,
+        span: [0, 6],
+        hint: 'pass a value, e.g. `--host <host>`',
+        usage: 'app serve <dir>',
+      })
+      expect(app.getDiagnostic(new Error('boom'))).toBeUndefined()
+    })
+
+    it('prints the command line with a caret under the offending token', async () => {
+      const write = spyOn(process.stderr, 'write').mockImplementation(() => true)
+      const app = createCLI()
+
+      await expect(app.run(argv('serve', 'dist', '--port', 'abc'))).rejects.toThrow('must be a number')
+      expect(String(write.mock.calls[0][0])).toContain([
+        '  $ app serve dist --port abc',
+        '                          ^^^',
+        '  usage: app serve <dir>',
+      ].join('\n'))
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { generateCompletion, getCompletions } from '../src/completion'
+import { addMessages, setLocale } from '../src/i18n'
+import { createTestCLI } from './utils'
+
+function createCLI() {
+  const app = createTestCLI()
+  app.command('deploy <env>', 'Deploy the app')
+    .option('--branch <branch>', 'Branch to deploy')
+    .option('--region <region>', 'Region', { choices: ['eu', 'us'] })
+    .option('--no-cache', 'Skip the cache')
+    .complete(({ option, argIndex }) => {
+      if (option?.name === 'branch')
+        return ['main', 'next']
+      if (argIndex === 0)
+        return [{ value: 'production', description: 'Live' }, { value: 'staging' }]
+      return []
+    })
+    .alias('d')
+  app.command('db migrate', 'Run migrations')
+  app.command('db seed', 'Seed the database')
+  app.completion()
+  return app
+}
+
+function values(items: { value: string }[]): string[] {
+  return items.map(item => item.value)
+}
+
+describe('completion', () => {
+  afterEach(() => {
+    mock.restore()
+    setLocale(undefined)
+  })
+
+  it('completes command names and aliases', async () => {
+    const app = createCLI()
+    expect(values(await getCompletions(app, ['']))).toEqual(['deploy', 'd', 'db', 'completion'])
+    expect(values(await getCompletions(app, ['d']))).toEqual(['deploy', 'd', 'db'])
+    expect(values(await getCompletions(app, ['db', '']))).toEqual(['migrate', 'seed'])
+  })
+
+  it('completes options with their negations', async () => {
+    const app = createCLI()
+    expect(values(await getCompletions(app, ['deploy', '--']))).toEqual([
+      '--verbose',
+      '--branch',
+      '--region',
+      '--no-cache',
+    ])
+  })
+
+  it('translates descriptions like help', async () => {
+    addMessages('de', { 'Deploy the app': 'App ausrollen', 'Branch to deploy': 'Zu deployender Branch' })
+    addMessages('ja', { 'Deploy the app': 'アプリをデプロイする', 'Branch to deploy': 'デプロイするブランチ' })
+    const app = createCLI()
+
+    setLocale('de')
+    expect((await getCompletions(app, ['']))[0]).toEqual({ value: 'deploy', description: 'App ausrollen' })
+    expect(await getCompletions(app, ['deploy', '--b'])).toEqual([{ value: '--branch', description: 'Zu deployender Branch' }])
+    setLocale('ja')
+    expect((await getCompletions(app, ['']))[0]).toEqual({ value: 'deploy', description: 'アプリをデプロイする' })
+    expect(await getCompletions(app, ['deploy', '--b'])).toEqual([{ value: '--branch', description: 'デプロイするブランチ' }])
+  })
+
+  it('completes option choices and dynamic values', async () => {
+    const app = createCLI()
+    expect(values(await getCompletions(app, ['deploy', '--region', '']))).toEqual(['eu', 'us'])
+    expect(values(await getCompletions(app, ['deploy', '--branch', 'n']))).toEqual(['next'])
+    expect(await getCompletions(app, ['deploy', '--verbose', 'p'])).toEqual([
+      { value: 'production', description: 'Live' },
+    ])
+  })
+
+  it('generates scripts which call back into the cli', () => {
+    const app = createCLI()
+    expect(generateCompletion(app, 'bash')).toContain('complete -o default -F _app_completion app')
+    expect(generateCompletion(app, 'zsh')).toContain('compdef _app_completion app')
+    expect(generateCompletion(app, 'fish')).toContain('complete -c app -f -a \'(_app_completion)\'')
+  })
+
+  it('prints candidates from the hidden __complete command', async () => {
+    const log = spyOn(console, 'log').mockImplementation(() => {})
+    const app = createCLI()
+
+    await app.run(['node', 'app', '__complete', '--', 'completion', ''])
+    expect(log).toHaveBeenCalledWith('bash\nzsh\nfish')
+  })
+
+  it('leaves global option groups to user commands', () => {
+    spyOn(console, 'log').mockImplementation(() => {})
+    const app = createCLI()
+    app.option('--token <token>', 'Token').option('--token-file <file>', 'Token file')
+    app.exactlyOneOf(['token', 'tokenFile'])
+    app.command('login', 'Log in').action(() => {})
+
+    expect(() => app.parse(['node', 'app', 'completion', 'bash'])).not.toThrow()
+    app.parse(['node', 'app', '__complete', '--', 'completion', ''], { run: false })
+    expect(() => app.matchedCommand!.checkOptionRelations()).not.toThrow()
+    expect(() => app.parse(['node', 'app', 'login'])).toThrow('one of `--token`, `--token-file` is required')
+  })
+})
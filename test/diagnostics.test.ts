@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'bun:test'
+import { findOptionToken, findOptionValueToken, formatDiagnostic } from '../src'
+
+describe('findOptionToken', () => {
+  it('finds the last long or short flag of an option before `--`', () => {
+    const argv = ['build', '--out-dir', 'a', '-wo', 'b', '--', '--out-dir']
+    expect(findOptionToken(argv, ['o', 'outDir'])).toEqual({ index: 3, span: [2, 3] })
+    expect(findOptionToken(argv, ['outDir'])).toEqual({ index: 1, span: [0, 9] })
+    expect(findOptionToken(argv, ['watch'])).toBeUndefined()
+  })
+
+  it('matches negated and dotted flags', () => {
+    expect(findOptionToken(['--no-color'], ['color'])).toEqual({ index: 0, span: [0, 10] })
+    expect(findOptionToken(['--env.API_URL=x'], ['env'])).toEqual({ index: 0, span: [0, 13] })
+  })
+})
+
+describe('findOptionValueToken', () => {
+  it('finds the value after `=`, attached to a short flag, or in the next token', () => {
+    expect(findOptionValueToken(['--port=abc'], ['port'])).toEqual({ index: 0, span: [7, 10] })
+    expect(findOptionValueToken(['-pabc'], ['p', 'port'])).toEqual({ index: 0, span: [2, 5] })
+    expect(findOptionValueToken(['--port', 'abc'], ['port'])).toEqual({ index: 1, span: [0, 3] })
+    expect(findOptionValueToken(['--port'], ['port'])).toEqual({ index: 0, span: [0, 6] })
+  })
+})
+
+describe('formatDiagnostic', () => {
+  const diagnostic = {
+    message: 'option `--port <port>` must be a number, received `abc`',
+    name: 'mycli',
+    argv: ['serve', '--port=abc'],
+    index: 1,
+    span: [7, 10] as [number, number],
+  }
+
+  it('points at the span of the token', () => {
+    expect(formatDiagnostic({ ...diagnostic, hint: 'pass a number', usage: 'mycli serve [options]' })).toBe([
+      '  $ mycli serve --port=abc',
+      '                       ^^^',
+      '  hint: pass a number',
+      '  usage: mycli serve [options]',
+    ].join('\n'))
+  })
+
+  it('points after the command line when something is missing', () => {
+    expect(formatDiagnostic({ ...diagnostic, index: 2, span: [0, 1] })).toBe([
+      '  $ mycli serve --port=abc',
+      '                           ^',
+    ].join('\n'))
+  })
+
+  it('quotes tokens', () => {
+    expect(formatDiagnostic({ ...diagnostic, argv: ['deploy', 'my app', 'it\'s'], index: 1, span: [3, 6] })).toBe([
+      '  $ mycli deploy \'my app\' \'it\'\\\'\'s\'',
+      '                     ^^^',
+    ].join('\n'))
+    expect(formatDiagnostic({ ...diagnostic, argv: ['deploy', 'my app', 'it\'s'], index: 2, span: [0, 4] })).toBe([
+      '  $ mycli deploy \'my app\' \'it\'\\\'\'s\'',
+      '                          ^^^^^^^^^',
+    ].join('\n'))
+  })
+
+  it('cuts long command lines around the caret', () => {
+    const argv = [...Array.from({ length: 20 }, (_, index) => `--flag-${index}`), '--port=abc']
+    const [line, caret] = formatDiagnostic({ ...diagnostic, argv, index: 20, span: [7, 10] }, { columns: 40 }).split('\n')
+    expect(line).toHaveLength(40)
+    expect(line.startsWith('  …')).toBe(true)
+    expect(line.endsWith('--port=abc')).toBe(true)
+    expect(caret).toBe(`${' '.repeat(37)}^^^`)
+  })
+})
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { wrapText } from '../src/help'
+import { style } from '../src/style'
+import { createTestCLI, MockWritable } from './utils'
+
+function createCLI() {
+  const output = new MockWritable()
+  const app = createTestCLI({ helpOutput: output })
+  app.option('--debug-port <port>', 'Inspector port', { category: 'Debugging' })
+  app.option('--trace', 'Internal tracing', { hidden: true })
+  app.option('--legacy', 'Old output format', { deprecated: 'use --format' })
+  app.command('deploy <env>', 'Deploy the app')
+  app.command('db migrate', 'Run migrations', { category: 'Database' })
+  app.command('secret', 'Not listed', { hidden: true })
+  app.command('publish', 'Publish the app', { deprecated: true })
+  app.help()
+  app.version('1.0.0')
+  return { app, output }
+}
+
+describe('help', () => {
+  const { supportsColor } = style
+
+  afterEach(() => {
+    style.supportsColor = supportsColor
+  })
+
+  it('prints grouped entries to the help stream', () => {
+    const { app, output } = createCLI()
+    app.parse(['node', 'app', '--help'])
+
+    const help = output.buffer.join('')
+    expect(help).toContain('Commands:\n  deploy <env>  Deploy the app\n\n')
+    expect(help).toContain('Database:\n  db migrate  Run migrations')
+    expect(help).toContain('Debugging:\n  --debug-port <port>  Inspector port')
+    expect(help).not.toContain('secret')
+    expect(help).not.toContain('--trace')
+    expect(help).not.toContain('publish')
+    expect(help).not.toContain('--legacy')
+  })
+
+  it('lists deprecated entries with --all', () => {
+    const { app, output } = createCLI()
+    app.parse(['node', 'app', '--help', '--all'])
+
+    const help = output.buffer.join('')
+    expect(help).toContain('Commands:\n  deploy <env>  Deploy the app\n  publish       Publish the app (deprecated)')
+    expect(help).toContain('--legacy       Old output format (deprecated: use --format)')
+  })
+
+  it('wraps descriptions below the description column', () => {
+    expect(wrapText('one two three four', 9)).toEqual(['one two', 'three', 'four'])
+
+    const { app, output } = createCLI()
+    app.command('build', 'Build the app '.repeat(10).trim())
+    app.parse(['node', 'app', '--help'])
+
+    const lines = output.buffer.join('').split('\n')
+    expect(lines.every(line => line.length <= 80)).toBe(true)
+    expect(lines).toContain(`${' '.repeat(16)}Build the app`)
+  })
+
+  it('renders markdown and json', () => {
+    const { app } = createCLI()
+    const markdown = app.formatHelp('markdown')
+    expect(markdown).toStartWith('# app/1.0.0\n\n## Usage\n\n```sh\n$ app <command> [options]\n```')
+    expect(markdown).toContain('## Database\n\n- `db migrate` - Run migrations')
+
+    const model = JSON.parse(app.formatHelp('json'))
+    expect(model.commands.map((group: { title: string }) => group.title)).toEqual(['Commands', 'Database'])
+    expect(model.options[0].entries[0]).toEqual({ name: '--verbose', description: 'Verbose output', notes: [] })
+  })
+
+  it('styles titles after the help callback and mutes notes', () => {
+    style.supportsColor = true
+    const output = Object.assign(new MockWritable(), { isTTY: true })
+    const app = createTestCLI({ helpOutput: output })
+    app.option('--port <port>', '', { default: 3000 })
+    const titles: Array<string | undefined> = []
+    app.help((sections) => {
+      titles.push(...sections.map(section => section.title))
+      return sections.filter(section => section.title !== 'Usage')
+    })
+
+    const help = app.formatHelp()
+    expect(titles).toContain('Usage')
+    expect(help).not.toContain('$ app')
+    expect(help).toContain(`${style.bold('Options')}:`)
+    expect(help).toContain(`${style.muted('(default: 3000)')}`)
+  })
+})
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import process from 'node:process'
+import { cli } from '../src/CLI'
+import { addMessages, getLocale, setLocale, t } from '../src/i18n'
+import { ClappError } from '../src/utils'
+import { argv } from './utils'
+
+describe('i18n', () => {
+  const env = { LANG: process.env.LANG, LC_ALL: process.env.LC_ALL, LC_MESSAGES: process.env.LC_MESSAGES }
+
+  afterEach(() => {
+    mock.restore()
+    setLocale(undefined)
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name]
+      }
+      else {
+        process.env[name] = value
+      }
+    }
+  })
+
+  describe('getLocale', () => {
+    it('reads LC_ALL before LC_MESSAGES and LANG', () => {
+      delete process.env.LC_ALL
+      delete process.env.LC_MESSAGES
+      process.env.LANG = 'de_DE.UTF-8'
+      expect(getLocale()).toBe('de-DE')
+      process.env.LC_ALL = 'ja_JP.UTF-8'
+      expect(getLocale()).toBe('ja-JP')
+    })
+
+    it('falls back to `en` for the C locale', () => {
+      delete process.env.LC_MESSAGES
+      delete process.env.LANG
+      process.env.LC_ALL = 'C.UTF-8'
+      expect(getLocale()).toBe('en')
+    })
+
+    it('prefers the override', () => {
+      process.env.LC_ALL = 'de_DE.UTF-8'
+      setLocale('ja')
+      expect(getLocale()).toBe('ja')
+    })
+  })
+
+  describe('t', () => {
+    it('interpolates params and falls back to the language and `en`', () => {
+      addMessages('de', { 'test.greeting': 'Hallo {name}' })
+      setLocale('de-AT')
+      expect(t('test.greeting', { name: 'Welt' })).toBe('Hallo Welt')
+      expect(t('errors.unknownCommand', { name: 'x' })).toBe('Unbekannter Befehl `x`')
+      addMessages('en', { 'test.only': 'English {missing}' })
+      expect(t('test.only')).toBe('English {missing}')
+    })
+
+    it('picks plural forms by `count`', () => {
+      setLocale('en')
+      expect(t('errors.expectedAtMost', { count: 1 })).toBe('at most 1 arg')
+      expect(t('errors.expectedAtMost', { count: 2 })).toBe('at most 2 args')
+      setLocale('ja')
+      expect(t('errors.expectedAtMost', { count: 1 })).toBe('最大 1 個の引数')
+    })
+
+    it('returns unknown keys as they are', () => {
+      setLocale('de')
+      expect(t('Build the project')).toBe('Build the project')
+      addMessages('de', { 'Build the project': 'Projekt bauen' })
+      expect(t('Build the project')).toBe('Projekt bauen')
+    })
+  })
+
+  it('translates help and user descriptions', () => {
+    addMessages('de', { 'Port to listen on': 'Port, auf dem gelauscht wird' })
+    const app = cli('app', { locale: 'de' })
+    app.option('--port <port>', 'Port to listen on', { default: 3000 })
+    app.help()
+
+    const help = app.formatHelp()
+    expect(help).toContain('Verwendung:')
+    expect(help).toContain('Optionen:')
+    expect(help).toContain('--port <port>  Port, auf dem gelauscht wird (Standard: 3000)')
+    expect(help).toContain('Diese Hilfe anzeigen')
+  })
+
+  it('translates parse errors', () => {
+    const app = cli('app', { locale: 'ja' })
+    app.command('build', 'Build').action(() => {})
+    app.option('--watch', 'Watch')
+
+    expect(() => app.parse(argv('build', '--wacth'))).toThrow('不明なオプション `--wacth`\nもしかして `--watch`?')
+    expect(() => app.parse(argv('build', 'src'))).toThrow('コマンド `build` の引数が多すぎます')
+  })
+
+  it('translates command definition errors and the error prefix', () => {
+    const stderr = spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const app = cli('app', { locale: 'de' })
+
+    expect(() => app.command('deploy [env] <target>', 'Deploy')).toThrow(
+      'erforderliches Argument `<target>` darf in Befehl `deploy [env] <target>` nicht auf das optionale Argument `[env]` folgen',
+    )
+    app.outputError(new ClappError('kaputt'))
+    expect(String(stderr.mock.calls[0][0])).toMatch(/^\S*Fehler\S* kaputt\n$/)
+  })
+})
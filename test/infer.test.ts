@@ -0,0 +1,76 @@
+import type { CamelCase, InferArgs, InferOption } from '../src/infer'
+import { describe, expect, it } from 'bun:test'
+import { cli } from '../src/CLI'
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false
+
+function assertType<_T extends true>(): void {}
+
+describe('type inference', () => {
+  it('infers args from the command name', () => {
+    assertType<Equal<InferArgs<'deploy <env> [...targets]'>, [string, string[]]>>()
+    assertType<Equal<InferArgs<'db migrate [name]'>, [string | undefined]>>()
+    assertType<Equal<InferArgs<'build'>, []>>()
+    assertType<Equal<InferArgs<string>, any[]>>()
+  })
+
+  it('infers options from their declarations', () => {
+    assertType<Equal<CamelCase<'dry-run-all'>, 'dryRunAll'>>()
+    assertType<Equal<InferOption<'-p, --port <port>', { type: NumberConstructor }>, { port?: number }>>()
+    assertType<Equal<InferOption<'--dry-run'>, { dryRun?: boolean }>>()
+    assertType<Equal<InferOption<'--no-cache'>, { cache: boolean }>>()
+    assertType<Equal<InferOption<'--out [file]'>, { out?: string | boolean }>>()
+    assertType<Equal<InferOption<'--region <region>', { default: 'eu' }>, { region: string }>>()
+    assertType<Equal<InferOption<'--tag <tag>', { type: readonly [StringConstructor] }>, { tag?: string[] }>>()
+    assertType<Equal<InferOption<'--env.* <value>'>, { env?: Record<string, any> }>>()
+    assertType<Equal<InferOption<'-v, --verbose', { shape: 'count' }>, { verbose: number }>>()
+    assertType<Equal<InferOption<'--port <port>', { shape: 'array', type: 'number' }>, { port?: number[] }>>()
+    assertType<Equal<InferOption<'-D, --define <pair>', { shape: 'map' }>, { define?: Record<string, string> }>>()
+  })
+
+  it('types action parameters', () => {
+    const app = cli('app')
+    let received: unknown
+    app.command('deploy <env> [...targets]', 'Deploy')
+      .option('-p, --port <port>', 'Port', { type: Number })
+      .option('--mode <mode>', 'Mode', { choices: ['fast', 'safe'], default: 'safe' })
+      .action((env, targets, options) => {
+        assertType<Equal<typeof env, string>>()
+        assertType<Equal<typeof targets, string[]>>()
+        assertType<Equal<typeof options.port, number | undefined>>()
+        assertType<Equal<typeof options.mode, 'fast' | 'safe'>>()
+        received = [env, targets, options.port, options.mode]
+      })
+
+    app.parse(['node', 'bin', 'deploy', 'prod', 'eu', 'us', '--port', '80'])
+    expect(received).toEqual(['prod', ['eu', 'us'], 80, 'safe'])
+  })
+
+  it('types args described with `argument()`', () => {
+    const app = cli('app')
+    let received: unknown
+    app.command('scale <replicas> [region] [...tags]', 'Scale')
+      .argument('replicas', 'Replicas', { type: 'integer' })
+      .argument('[region]', 'Region', { choices: ['eu', 'us'], default: 'eu' })
+      .argument('tags', 'Tags', { parse: (value: string) => value.toUpperCase() })
+      .option('--dry-run', 'Dry run')
+      .action((replicas, region, tags, options) => {
+        assertType<Equal<typeof replicas, number>>()
+        assertType<Equal<typeof region, 'eu' | 'us'>>()
+        assertType<Equal<typeof tags, string[]>>()
+        assertType<Equal<typeof options.dryRun, boolean | undefined>>()
+        received = [replicas, region, tags, options.dryRun]
+      })
+    app.command('logs [lines]', 'Logs')
+      .argument('lines', 'Lines', { type: Number })
+      .action((lines) => {
+        assertType<Equal<typeof lines, number | undefined>>()
+        received = lines
+      })
+
+    app.parse(['node', 'bin', 'scale', '3', '--dry-run'])
+    expect(received).toEqual([3, 'eu', [], true])
+    app.parse(['node', 'bin', 'logs', '20'])
+    expect(received).toBe(20)
+  })
+})
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import process from 'node:process'
+import { cli } from '../src/CLI'
+import { renderOutput } from '../src/output'
+import { intro, log, note, outro, stream, taskLog } from '../src/prompts'
+
+const services = [
+  { name: 'api', replicas: 2, tags: ['web'] },
+  { name: 'worker, "bg"', replicas: 1 },
+]
+
+describe('output', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it('renders data in each format', () => {
+    expect(renderOutput(services, 'json')).toBe(JSON.stringify(services, null, 2))
+    expect(renderOutput(services, 'csv')).toBe('name,replicas,tags\napi,2,"[""web""]"\n"worker, ""bg""",1,')
+    expect(renderOutput(services, 'yaml')).toBe([
+      '- name: api',
+      '  replicas: 2',
+      '  tags:',
+      '  - web',
+      '- name: worker, "bg"',
+      '  replicas: 1',
+    ].join('\n'))
+    expect(renderOutput({ version: '1.0', ok: true, note: '# todo', empty: [] }, 'yaml')).toBe(
+      'version: "1.0"\nok: true\nnote: "# todo"\nempty: []',
+    )
+    expect(renderOutput(services, 'table')).toBe([
+      '┌──────────────┬──────────┬─────────┐',
+      '│ name         │ replicas │ tags    │',
+      '├──────────────┼──────────┼─────────┤',
+      '│ api          │ 2        │ ["web"] │',
+      '│ worker, "bg" │ 1        │         │',
+      '└──────────────┴──────────┴─────────┘',
+    ].join('\n'))
+    expect(renderOutput({ name: 'api', replicas: 2 }, 'text')).toBe('name:      api\nreplicas:  2')
+    expect(renderOutput(['a', 'b'], 'text')).toBe('a\nb')
+  })
+
+  it('prints action results and moves logs to stderr in machine formats', async () => {
+    const stdout = spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const stderr = spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const app = cli('app', { exitProcess: false }).outputFormat()
+    app.command('ls', 'List services').action(() => {
+      log.info('Listing services')
+      return services
+    })
+
+    await app.run(['node', 'app', 'ls', '--output', 'json'])
+    expect(stdout.mock.calls.map(([chunk]) => String(chunk))).toEqual([`${JSON.stringify(services, null, 2)}\n`])
+    expect(String(stderr.mock.calls[0][0])).toContain('Listing services')
+
+    stdout.mockClear()
+    await app.run(['node', 'app', 'ls'])
+    expect(stdout.mock.calls.map(([chunk]) => String(chunk)).join('')).toContain('Listing services')
+
+    await expect(app.run(['node', 'app', 'ls', '--output', 'xml'])).rejects.toThrow(
+      'option `--output <format>` must be one of `json`, `yaml`, `table`, `csv`, `text`, received `xml`',
+    )
+  })
+
+  it('keeps prompt messages off stdout in machine formats', async () => {
+    const stdout = spyOn(process.stdout, 'write').mockImplementation(() => true)
+    spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const app = cli('app', { exitProcess: false }).outputFormat()
+    app.command('deploy', 'Deploy').action(async () => {
+      intro('Deploying')
+      note('to production', 'Target')
+      await stream.info(['Uploading'])
+      const task = taskLog({ title: 'Build' })
+      task.message('compiled')
+      task.success('Built')
+      outro('Done')
+      return { ok: true }
+    })
+
+    await app.run(['node', 'app', 'deploy', '--output', 'csv'])
+    expect(stdout.mock.calls.map(([chunk]) => String(chunk))).toEqual(['ok\ntrue\n'])
+  })
+})
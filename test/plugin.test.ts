@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { cli } from '../src/CLI'
+import { definePlugin } from '../src/plugin'
+import { cleanupTestFS, createTestFS } from '../src/testing'
+import { argv } from './utils'
+
+const auth = definePlugin({
+  name: 'auth',
+  namespace: 'auth',
+  setup({ command, option, helpSection }) {
+    option('--profile <profile>', 'Credentials profile', { default: 'default' })
+    command('login', 'Log in').action(options => `login:${options.profile}`)
+    helpSection({ title: 'Authentication', body: '  Run `app auth login` first' })
+  },
+})
+
+describe('plugin', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it('registers namespaced commands, global options and help sections', () => {
+    const log = spyOn(console, 'log').mockImplementation(() => {})
+    const app = cli('app').use(auth)
+    app.help()
+
+    const { args, options } = app.parse(argv('auth', 'login', '--profile', 'work'), { run: false })
+    expect(app.matchedCommandName).toBe('auth login')
+    expect(args).toEqual([])
+    expect(options.profile).toBe('work')
+    expect(app.runMatchedCommand()).toBe('login:work')
+
+    app.parse(argv('--help'))
+    expect(log.mock.calls[0][0]).toContain('Authentication:\n  Run `app auth login` first')
+  })
+
+  it('rejects duplicate plugins and commands', () => {
+    const app = cli('app').use(auth)
+    expect(() => app.use(auth)).toThrow('plugin `auth` is already installed')
+    expect(() => app.use(definePlugin({ ...auth, name: 'auth2' }))).toThrow(
+      'plugin `auth2` cannot add command `auth login`, it already exists',
+    )
+  })
+
+  it('orders plugin middleware with enforce', async () => {
+    const calls: string[] = []
+    const track = (name: string) => () => {
+      calls.push(name)
+    }
+    const app = cli('app', { exitProcess: false })
+    app.command('build', 'Build').action(track('action'))
+    app.use(definePlugin({ name: 'post', enforce: 'post', setup: ({ beforeRun }) => beforeRun(track('post')) }))
+    app.beforeRun(track('cli'))
+    app.use(definePlugin({ name: 'pre', enforce: 'pre', setup: ({ beforeRun }) => beforeRun(track('pre')) }))
+
+    await app.run(argv('build'))
+    expect(calls).toEqual(['pre', 'cli', 'post', 'action'])
+  })
+
+  it('discovers plugin packages in node_modules', async () => {
+    const cwd = await createTestFS({
+      'node_modules/app-plugin-whoami/package.json': JSON.stringify({ name: 'app-plugin-whoami', main: 'index.js' }),
+      'node_modules/app-plugin-whoami/index.js': 'export default () => ({ name: \'whoami\', setup: ({ command }) => command(\'whoami\', \'Show the user\') })',
+      'node_modules/other-plugin-x/package.json': JSON.stringify({ name: 'other-plugin-x' }),
+    })
+    try {
+      const app = cli('app')
+      const plugins = await app.discoverPlugins(cwd)
+      expect(plugins.map(plugin => plugin.name)).toEqual(['whoami'])
+      expect(app.commands.map(command => command.name)).toEqual(['whoami'])
+    }
+    finally {
+      await cleanupTestFS(cwd)
+    }
+  })
+})
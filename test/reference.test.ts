@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { cli } from '../src/CLI'
+import { addMessages, setLocale } from '../src/i18n'
+import { generateManPage, generateMarkdownReference } from '../src/reference'
+import { createTestCLI } from './utils'
+
+function createCLI() {
+  const app = createTestCLI()
+  app.command('deploy <env> [...regions]', 'Deploy the app')
+    .argument('env', 'Target environment')
+    .option('--branch <branch>', 'Branch to deploy', { default: 'main' })
+    .option('--trace', 'Internal tracing', { hidden: true })
+    .alias('d')
+    .example('app deploy production eu us')
+  app.command('secret', 'Not documented', { hidden: true })
+  app.help()
+  app.version('1.0.0')
+  return app
+}
+
+describe('reference', () => {
+  afterEach(() => {
+    setLocale(undefined)
+  })
+
+  it('generates a man page', () => {
+    const man = generateManPage(createCLI(), { date: '2025-01-01', description: 'Deploy tool' })
+    expect(man).toStartWith('.TH "APP" "1" "2025-01-01" "app 1.0.0" "User Commands"\n.SH NAME\napp \\- Deploy tool\n')
+    expect(man).toContain('.SS app deploy <env> [...regions]\nDeploy the app\n.PP\nAliases: d')
+    expect(man).toContain('.TP\n.I env\nTarget environment (required)\n.TP\n.I regions...\n')
+    expect(man).toContain('.B \\-\\-branch <branch>\nBranch to deploy (default: main)')
+    expect(man).toContain('.nf\napp deploy production eu us\n.fi')
+    expect(man).not.toContain('secret')
+    expect(man).not.toContain('trace')
+  })
+
+  it('generates a markdown reference', () => {
+    const markdown = generateMarkdownReference(createCLI())
+    expect(markdown).toContain('## Global Options\n\n| Option | Description | Default |\n| ------ | ----------- | ------- |\n| `--verbose` | Verbose output |  |')
+    expect(markdown).toContain('### `app deploy <env> [...regions]`\n\nDeploy the app\n\n**Aliases:** `d`')
+    expect(markdown).toContain('| `env` | Target environment | Yes |\n| `regions...` |  | No |')
+    expect(markdown).toContain('| `--branch <branch>` | Branch to deploy | `main` |')
+    expect(markdown).not.toContain('secret')
+  })
+
+  it('translates headings, labels and descriptions', () => {
+    addMessages('de', { 'Deploy the app': 'App ausrollen', 'Branch to deploy': 'Zu deployender Branch' })
+    const app = cli('app', { locale: 'de' })
+    app.command('deploy <env>', 'Deploy the app')
+      .option('--branch <branch>', 'Branch to deploy', { choices: ['main', 'next'], default: 'main' })
+
+    const markdown = generateMarkdownReference(app)
+    expect(markdown).toContain('## Befehle\n\n### `app deploy <env>`\n\nApp ausrollen')
+    expect(markdown).toContain('#### Argumente\n\n| Argument | Beschreibung | Erforderlich |\n| -------- | ------------ | ------------ |\n| `env` |  | Ja |')
+    expect(markdown).toContain('#### Optionen\n\n| Option | Beschreibung | Standard |')
+    expect(markdown).toContain('| `--branch <branch>` | Zu deployender Branch (Auswahl: main, next) | `main` |')
+
+    const man = generateManPage(app, { date: '2025-01-01' })
+    expect(man).toContain('"Benutzerbefehle"\n.SH NAME\napp\n.SH ÜBERSICHT\n')
+    expect(man).toContain('.SH BEFEHLE\n')
+    expect(man).toContain('.I env\n(erforderlich)\n')
+    expect(man).toContain('Zu deployender Branch (Auswahl: main, next) (Standard: main)')
+  })
+})
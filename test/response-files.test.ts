@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import path from 'node:path'
+import { cli } from '../src/CLI'
+import { formatDiagnostic } from '../src/diagnostics'
+import { expandResponseFiles } from '../src/response-files'
+import { cleanupTestFS, createTestFS } from '../src/testing'
+
+let cwd: string
+
+beforeAll(async () => {
+  cwd = await createTestFS({
+    'build.args': [
+      '# Release build',
+      '--minify --target "node 20"   # inline comment',
+      '--define \'NAME=my app\' "say \\"hi\\""',
+      '@shared/common.args',
+      '"@literal"',
+    ].join('\n'),
+    'shared/common.args': '--sourcemap @../extra.args\n',
+    'extra.args': '--outdir dist',
+    'loop/a.args': '--a\n@b.args',
+    'loop/b.args': '\n--b @a.args',
+    'broken.args': '--ok\n--name "unterminated\n',
+    'missing.args': '\n\n@nope.args',
+    'serve.args': '--host 0.0.0.0\n--port abc',
+  })
+})
+
+afterAll(async () => {
+  await cleanupTestFS(cwd)
+})
+
+describe('response files', () => {
+  it('expands quoted args, comments and includes', () => {
+    const { args, origins } = expandResponseFiles(['build', '@build.args', '--', '@raw'], { cwd })
+    expect(args).toEqual([
+      'build',
+      '--minify',
+      '--target',
+      'node 20',
+      '--define',
+      'NAME=my app',
+      'say "hi"',
+      '--sourcemap',
+      '--outdir',
+      'dist',
+      '@literal',
+      '--',
+      '@raw',
+    ])
+    const common = `${path.join('shared', 'common.args')}:1`
+    expect(origins).toEqual([
+      undefined,
+      ...Array.from({ length: 3 }, () => 'build.args:2'),
+      ...Array.from({ length: 3 }, () => 'build.args:3'),
+      common,
+      'extra.args:1',
+      'extra.args:1',
+      'build.args:5',
+      undefined,
+      undefined,
+    ])
+  })
+
+  it('points errors at the file and line', () => {
+    expect(() => expandResponseFiles(['@broken.args'], { cwd })).toThrow(
+      'unterminated quote in response file `broken.args:2`',
+    )
+    expect(() => expandResponseFiles(['@missing.args'], { cwd })).toThrow(
+      'cannot read response file `nope.args` at `missing.args:3`',
+    )
+    expect(() => expandResponseFiles(['@loop/a.args'], { cwd })).toThrow(
+      `response files include each other at \`${path.join('loop', 'b.args')}:2\`: ${
+        ['a.args', 'b.args', 'a.args'].map(file => path.join('loop', file)).join(' -> ')
+      }`,
+    )
+    expect(() => expandResponseFiles(['@build.args'], { cwd, maxDepth: 2 })).toThrow(
+      `response files are nested more than 2 levels deep at \`${path.join('shared', 'common.args')}:1\``,
+    )
+  })
+
+  it('expands argv before parsing unless the command opts out', () => {
+    const app = cli('app', { responseFiles: { cwd } })
+    app.command('build', 'Build').option('--outdir <dir>', 'Output directory')
+    app.command('publish <...files>', 'Publish', { responseFiles: false })
+
+    expect(app.parse(['node', 'app', 'build', '@extra.args'], { run: false }).options.outdir).toBe('dist')
+    expect(app.parse(['node', 'app', 'publish', '@scope/pkg'], { run: false }).args).toEqual(['@scope/pkg'])
+    expect(cli('app').parse(['node', 'app', '@extra.args'], { run: false }).args).toEqual(['@extra.args'])
+  })
+
+  it('names the file and line of args causing parse errors', () => {
+    const app = cli('app', { responseFiles: { cwd } })
+    app.command('serve', 'Serve')
+      .option('--host <host>', 'Host')
+      .option('--port <port>', 'Port', { type: Number })
+
+    let error: unknown
+    try {
+      app.parse(['node', 'app', 'serve', '@serve.args'], { run: false })
+    }
+    catch (error_) {
+      error = error_
+    }
+    const diagnostic = app.getDiagnostic(error)
+    expect(diagnostic).toMatchObject({ argv: ['serve', '--host', '0.0.0.0', '--port', 'abc'], index: 4, origin: 'serve.args:2' })
+    expect(formatDiagnostic(diagnostic!)).toContain('\n  from: serve.args:2\n')
+  })
+})
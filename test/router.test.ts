@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { cli } from '../src/CLI'
+import { getRouteName, writeCommandManifest } from '../src/router'
+import { cleanupTestFS, createTestFS } from '../src/testing'
+import { argv } from './utils'
+
+function createCommandsDir() {
+  return createTestFS({
+    'commands/db/migrate.ts': [
+      'export const description = \'Run migrations\'',
+      'export const options = [{ flags: \'--step <step>\', description: \'Steps\', config: { type: \'number\' } }]',
+      'export const aliases = [\'m\']',
+      'export default options => \'migrate:\' + options.step',
+    ].join('\n'),
+    'commands/users/[id].ts': 'export const action = id => \'user:\' + id',
+    'commands/_shared.ts': 'throw new Error(\'not a command\')',
+  })
+}
+
+describe('router', () => {
+  it('maps file paths to command names', () => {
+    expect(getRouteName('db/migrate.ts')).toBe('db migrate')
+    expect(getRouteName('db/index.ts')).toBe('db')
+    expect(getRouteName('users/[id]/delete.ts')).toBe('users delete <id>')
+    expect(getRouteName('open/[[file]].ts')).toBe('open [file]')
+    expect(getRouteName('cat/[...files].ts')).toBe('cat <...files>')
+  })
+
+  it('registers the commands of a directory', async () => {
+    const cwd = await createCommandsDir()
+    try {
+      const app = cli('app')
+      await app.loadCommands(path.join(cwd, 'commands'))
+      expect(app.commands.map(command => command.rawName)).toEqual(['db migrate', 'users <id>'])
+
+      app.parse(argv('db', 'm', '--step', '2'), { run: false })
+      expect(await app.runMatchedCommand()).toBe('migrate:2')
+
+      app.parse(argv('users', '42'), { run: false })
+      expect(await app.runMatchedCommand()).toBe('user:42')
+    }
+    finally {
+      await cleanupTestFS(cwd)
+    }
+  })
+
+  it('registers commands from a manifest', async () => {
+    const cwd = await createCommandsDir()
+    try {
+      const manifest = path.join(cwd, 'src/commands.manifest.ts')
+      await writeCommandManifest(path.join(cwd, 'commands'), manifest)
+      const { default: routes } = await import(pathToFileURL(manifest).href)
+      expect(routes[0].load.toString()).toContain('../commands/db/migrate.ts')
+
+      const app = cli('app')
+      await app.loadCommands(routes)
+      app.parse(argv('db', 'migrate', '--step', '3'), { run: false })
+      expect(await app.runMatchedCommand()).toBe('migrate:3')
+    }
+    finally {
+      await cleanupTestFS(cwd)
+    }
+  })
+
+  it('keeps option types in a manifest', async () => {
+    const cwd = await createTestFS({
+      'commands/deploy.ts': [
+        'export const options = [',
+        '  { flags: \'--replicas <count>\', description: \'Replicas\', config: { type: Number } },',
+        '  { flags: \'--tag <tag>\', description: \'Tags\', config: { type: [String] } },',
+        ']',
+        'export default options => [options.replicas, options.tag]',
+      ].join('\n'),
+    })
+    try {
+      const manifest = path.join(cwd, 'src/commands.manifest.ts')
+      await writeCommandManifest(path.join(cwd, 'commands'), manifest)
+      const { default: routes } = await import(pathToFileURL(manifest).href)
+      expect(routes[0].options.map((option: any) => option.config.type)).toEqual(['number', ['string']])
+
+      const app = cli('app')
+      const [command] = await app.loadCommands(routes)
+      expect(command.options.map(option => option.config.type)).toEqual([Number, [String]])
+      app.parse(argv('deploy', '--replicas', '3', '--tag', 'web'), { run: false })
+      expect(await app.runMatchedCommand()).toEqual([3, ['web']])
+    }
+    finally {
+      await cleanupTestFS(cwd)
+    }
+  })
+})
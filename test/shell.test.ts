@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { Readable } from 'node:stream'
+import { cli } from '../src/CLI'
+import { completeShellLine } from '../src/shell'
+import { cleanupTestFS, createTestFS } from '../src/testing'
+import { MockWritable } from './utils'
+
+let calls: string[] = []
+
+function createCLI() {
+  const app = cli('admin')
+  app.command('login <user>', 'Log in').action(function (this: typeof app, user) {
+    this.state.user = user
+  })
+  app.command('whoami', 'Show the user').action(function (this: typeof app) {
+    return calls.push(`whoami:${this.state.user}`)
+  })
+  app.command('db migrate', 'Run migrations').option('--dry-run', 'Print only')
+  app.help()
+  return app
+}
+
+function createInput(lines: string[]) {
+  return Readable.from([`${lines.join('\n')}\n`])
+}
+
+describe('shell', () => {
+  afterEach(() => {
+    calls = []
+    mock.restore()
+  })
+
+  it('runs each line as a command and keeps state', async () => {
+    const stderr = spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const log = spyOn(console, 'log').mockImplementation(() => {})
+    const app = createCLI()
+    const output = new MockWritable()
+
+    await app.shell({ input: createInput(['login "ada l"', 'whoami', 'wohami', 'help db migrate', 'exit', 'whoami']), output })
+
+    expect(calls).toEqual(['whoami:ada l'])
+    expect(String(stderr.mock.calls[0][0])).toContain('Unknown command `wohami`\nDid you mean `whoami`?')
+    expect(log.mock.calls[0][0]).toContain('$ admin db migrate')
+    expect(output.buffer.join('')).toStartWith('admin> ')
+  })
+
+  it('appends lines to the history file', async () => {
+    const cwd = await createTestFS({ '.history': 'whoami\n' })
+    try {
+      const historyFile = path.join(cwd, '.history')
+      await createCLI().shell({ input: createInput(['', 'login ada', 'exit']), output: new MockWritable(), historyFile })
+      expect(await fs.readFile(historyFile, 'utf8')).toBe('whoami\nlogin ada\n')
+    }
+    finally {
+      await cleanupTestFS(cwd)
+    }
+  })
+
+  it('completes command names, options and builtins', async () => {
+    const app = createCLI()
+    expect(await completeShellLine(app, 'wh')).toEqual([['whoami'], 'wh'])
+    expect(await completeShellLine(app, 'he')).toEqual([['help'], 'he'])
+    expect(await completeShellLine(app, 'db ')).toEqual([['migrate'], ''])
+    expect(await completeShellLine(app, 'db migrate --d')).toEqual([['--dry-run'], '--d'])
+  })
+})
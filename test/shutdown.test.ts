@@ -0,0 +1,152 @@
+import type { CLI } from '../src/CLI'
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import process from 'node:process'
+import { cli } from '../src/CLI'
+import { ShutdownManager } from '../src/shutdown'
+import { cursor } from '../src/utils'
+import { MockReadable, MockWritable } from './utils'
+
+describe('ShutdownManager', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  const mockExit = () => spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit)
+
+  it('aborts the signal, runs cleanups newest first and exits', async () => {
+    const exit = mockExit()
+    const manager = new ShutdownManager()
+    const calls: string[] = []
+    manager.onCleanup(() => {
+      calls.push('server')
+    })
+    const remove = manager.onCleanup(() => {
+      calls.push('removed')
+    })
+    manager.onCleanup(async () => {
+      calls.push(manager.signal.aborted ? 'aborted' : 'running')
+    })
+    remove()
+
+    await manager.shutdown(130)
+    expect(calls).toEqual(['aborted', 'server'])
+    expect(exit).toHaveBeenCalledWith(130)
+  })
+
+  it('waits for running tasks before cleaning up', async () => {
+    const exit = mockExit()
+    spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const manager = new ShutdownManager()
+    const calls: string[] = []
+    manager.onCleanup(() => {
+      calls.push('cleanup')
+    })
+    manager.track(new Promise<void>((resolve) => {
+      manager.signal.addEventListener('abort', () => setTimeout(() => {
+        calls.push('task')
+        resolve()
+      }, 5))
+    }))
+
+    await manager.shutdown(143)
+    expect(calls).toEqual(['task', 'cleanup'])
+    expect(exit).toHaveBeenCalledWith(143)
+  })
+
+  it('keeps the exit code a task sets while shutting down', async () => {
+    const exit = mockExit()
+    spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const exitCode = process.exitCode
+    const manager = new ShutdownManager()
+    manager.track(new Promise<void>((resolve) => {
+      manager.signal.addEventListener('abort', () => setTimeout(() => {
+        process.exitCode = 0
+        resolve()
+      }, 5))
+    }))
+
+    await manager.shutdown(130)
+    expect(exit).toHaveBeenCalledWith(0)
+    process.exitCode = exitCode
+  })
+
+  it('ignores signals while suspended', async () => {
+    const exit = mockExit()
+    const manager = new ShutdownManager()
+    const uninstall = manager.install({ signals: ['SIGTERM'] })
+    const resume = manager.suspend()
+
+    process.emit('SIGTERM', 'SIGTERM')
+    expect(manager.isShuttingDown).toBe(false)
+    resume()
+    process.emit('SIGTERM', 'SIGTERM')
+    expect(manager.isShuttingDown).toBe(true)
+    uninstall()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(exit).toHaveBeenCalledWith(143)
+  })
+
+  it('exits immediately on a second shutdown', async () => {
+    const exit = mockExit()
+    spyOn(process.stderr, 'write').mockImplementation(() => true)
+    const manager = new ShutdownManager()
+    let finish = () => {}
+    manager.track(new Promise<void>((resolve) => {
+      finish = resolve
+    }))
+
+    const first = manager.shutdown(130)
+    expect(manager.isShuttingDown).toBe(true)
+    void manager.shutdown(130)
+    expect(exit).toHaveBeenCalledTimes(1)
+    finish()
+    await first
+  })
+
+  it('shuts down on signals until uninstalled', async () => {
+    const exit = mockExit()
+    const manager = new ShutdownManager()
+    const listeners = process.listenerCount('SIGTERM')
+
+    const uninstall = manager.install({ signals: ['SIGTERM'] })
+    expect(process.listenerCount('SIGTERM')).toBe(listeners + 1)
+    uninstall()
+    expect(process.listenerCount('SIGTERM')).toBe(listeners)
+
+    manager.install({ signals: ['SIGTERM'] })
+    process.emit('SIGTERM', 'SIGTERM')
+    await Bun.sleep(0)
+    expect(manager.signal.aborted).toBe(true)
+    expect(exit).toHaveBeenCalledWith(143)
+  })
+
+  it('shows the cursor and leaves raw mode', () => {
+    const input = Object.assign(new MockReadable(), { isTTY: true, isRaw: true, setRawMode: mock(() => {}) })
+    const output = Object.assign(new MockWritable(), { isTTY: true })
+    const manager = new ShutdownManager()
+    manager.install({ input, output, signals: [] })()
+
+    manager.restoreTerminal()
+    expect(output.buffer).toEqual([cursor.show])
+    expect(input.setRawMode).toHaveBeenCalledWith(false)
+  })
+})
+
+describe('cli signal', () => {
+  it('is passed to actions and middleware, and signals are only handled while running', async () => {
+    const app = cli('app')
+    const signals: AbortSignal[] = []
+    app.use((context, next) => {
+      signals.push(context.signal)
+      return next()
+    })
+    app.command('wait', 'Wait').action(function (this: CLI) {
+      signals.push(this.signal)
+    })
+    const listeners = process.listenerCount('SIGINT')
+
+    await app.run(['node', 'app', 'wait'])
+    expect(signals).toEqual([app.signal, app.signal])
+    expect(process.listenerCount('SIGINT')).toBe(listeners)
+  })
+})
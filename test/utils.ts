@@ -1,4 +1,22 @@
+import type { CLI, CLIConfig } from '../src/CLI'
 import { Readable, Writable } from 'node:stream'
+import { cli } from '../src/CLI'
+
+/**
+ * Build argv like `process.argv`, with the program and script paths before the args
+ */
+export function argv(...args: string[]): string[] {
+  return ['node', 'bin', ...args]
+}
+
+/**
+ * Create the `app` CLI the tests add their commands to, with a global `--verbose` option
+ */
+export function createTestCLI(config?: CLIConfig): CLI {
+  const app = cli('app', config)
+  app.option('--verbose', 'Verbose output')
+  return app
+}
 
 export class MockWritable extends Writable {
   public buffer: string[] = []